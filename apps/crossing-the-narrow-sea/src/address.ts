@@ -0,0 +1,52 @@
+/**
+ * Canonical wallet addresses for aggregation
+ *
+ * The same account can be written with different SS58 prefixes (or none, as raw hex),
+ * so counts key wallets by public key and display them with one configured prefix.
+ * H160 (EVM) senders are kept as checksummed `0x…` addresses.
+ */
+
+import { u8aToHex } from '@polkadot/util'
+import { decodeAddress, encodeAddress, ethereumEncode } from '@polkadot/util-crypto'
+import type { AddressType } from './evm'
+import { addressTypeOf } from './evm'
+
+/** Autonomys SS58 prefix (`su…` addresses) */
+export const DEFAULT_SS58_PREFIX = 6094
+
+export interface CanonicalAddress {
+  /** Public key (hex) for SS58 accounts, lowercase H160 for EVM accounts */
+  key: string
+  /** Address as displayed: SS58 with the configured prefix, or checksummed H160 */
+  display: string
+  type: AddressType
+}
+
+export const ss58PrefixFromEnv = (): number => {
+  const value = process.env.SS58_PREFIX
+  if (!value) return DEFAULT_SS58_PREFIX
+  const prefix = Number(value)
+  if (!Number.isInteger(prefix) || prefix < 0 || prefix > 16383) {
+    throw new Error(`SS58_PREFIX must be an integer between 0 and 16383 (got ${value})`)
+  }
+  return prefix
+}
+
+/**
+ * Normalizes an address; strings that are not valid addresses are returned unchanged
+ */
+export const canonicalAddress = (address: string, ss58Prefix: number): CanonicalAddress => {
+  if (addressTypeOf(address) === 'h160') {
+    return { key: address.toLowerCase(), display: ethereumEncode(address), type: 'h160' }
+  }
+  try {
+    const publicKey = decodeAddress(address)
+    return {
+      key: u8aToHex(publicKey),
+      display: encodeAddress(publicKey, ss58Prefix),
+      type: 'ss58',
+    }
+  } catch {
+    return { key: address, display: address, type: 'ss58' }
+  }
+}
@@ -0,0 +1,165 @@
+import 'dotenv/config'
+import type { ChainKey } from './chains'
+import { loadChainRegistry } from './chains'
+import type { LedgerEntry } from './sqlite'
+import {
+  getLastProcessedBlockHeight,
+  getLedgerEntries,
+  getStoredRowsByBlock,
+  openDb,
+} from './sqlite'
+
+// Coverage audit of the block ledger: every height of each chain's capture window (start..end
+// plus the late-delivery grace) must have a ledger entry, and each entry must agree with the
+// rows stored for its block. Runs offline; `rescan` re-captures the ranges it reports.
+// Heights captured before the ledger existed have no entry and show up as missing until rescanned.
+// Usage: yarn audit [--chain=<id>]; exits 1 when anything is missing or suspicious
+const OUTPUT_DIR = process.env.OUTPUT_DIR || 'exports'
+const DB_PATH = `${OUTPUT_DIR}/xdm.sqlite`
+
+export type SuspiciousReason = 'no_events' | 'hash_mismatch' | 'missing_xdm_rows'
+
+export interface HeightRange {
+  from: number
+  to: number
+  blocks: number
+}
+
+export interface SuspiciousRange extends HeightRange {
+  reason: SuspiciousReason
+}
+
+export interface ChainAudit {
+  chain: ChainKey
+  start: number
+  end: number
+  last_processed: number | null
+  ledger_blocks: number
+  missing_blocks: number
+  missing: HeightRange[]
+  suspicious: SuspiciousRange[]
+  /** Missing and suspicious heights merged into ranges for `rescan --from --to` */
+  rescan: HeightRange[]
+}
+
+export interface AuditResult {
+  db_path: string
+  ok: boolean
+  chains: ChainAudit[]
+  /** Chains without a configured window */
+  skipped: ChainKey[]
+}
+
+const argValue = (name: string): string | undefined =>
+  process.argv.find((a) => a.startsWith(`--${name}=`))?.split('=')[1]
+
+// Sorted heights → ranges of consecutive heights
+const toRanges = (heights: number[]): HeightRange[] => {
+  const ranges: HeightRange[] = []
+  for (const h of heights) {
+    const last = ranges[ranges.length - 1]
+    if (last && h === last.to + 1) {
+      last.to = h
+      last.blocks += 1
+    } else if (!last || h > last.to) {
+      ranges.push({ from: h, to: h, blocks: 1 })
+    }
+  }
+  return ranges
+}
+
+const suspiciousReasons = (
+  entry: LedgerEntry,
+  stored: { hash: string; rows: number }[],
+): SuspiciousReason[] => {
+  const reasons: SuspiciousReason[] = []
+  // Every block has at least the events of its timestamp inherent
+  if (entry.event_count === 0) reasons.push('no_events')
+  if (stored.some((s) => s.hash !== entry.block_hash)) reasons.push('hash_mismatch')
+  const rows = stored.filter((s) => s.hash === entry.block_hash).reduce((n, s) => n + s.rows, 0)
+  if (rows < entry.xdm_event_count) reasons.push('missing_xdm_rows')
+  return reasons
+}
+
+export const runAudit = (chainFilter: string | undefined = argValue('chain')): AuditResult => {
+  const chains = loadChainRegistry().filter((c) => !chainFilter || c.id === chainFilter)
+  if (chainFilter && chains.length === 0) {
+    throw new Error(`chain ${chainFilter} is not in the registry`)
+  }
+
+  const db = openDb(DB_PATH)
+  try {
+    const skipped: ChainKey[] = []
+    const audits: ChainAudit[] = []
+    for (const chain of chains) {
+      const { start, captureEnd: end } = chain
+      if (!Number.isInteger(start) || !Number.isInteger(end) || end < start) {
+        skipped.push(chain.id)
+        continue
+      }
+
+      const ledger = getLedgerEntries(db, chain.id, start, end)
+      const storedByHeight = new Map<number, { hash: string; rows: number }[]>()
+      for (const s of getStoredRowsByBlock(db, chain.id, start, end)) {
+        const blocks = storedByHeight.get(s.height) ?? []
+        blocks.push(s)
+        storedByHeight.set(s.height, blocks)
+      }
+
+      const missingHeights: number[] = []
+      const flagged = new Map<SuspiciousReason, number[]>()
+      let next = start
+      for (const entry of ledger) {
+        for (; next < entry.block_height; next++) missingHeights.push(next)
+        next = entry.block_height + 1
+        for (const reason of suspiciousReasons(
+          entry,
+          storedByHeight.get(entry.block_height) ?? [],
+        )) {
+          const heights = flagged.get(reason) ?? []
+          heights.push(entry.block_height)
+          flagged.set(reason, heights)
+        }
+      }
+      for (; next <= end; next++) missingHeights.push(next)
+
+      const suspicious = [...flagged.entries()].flatMap(([reason, heights]) =>
+        toRanges(heights).map((r) => ({ ...r, reason })),
+      )
+      const rescanHeights = [...new Set([...missingHeights, ...[...flagged.values()].flat()])]
+      audits.push({
+        chain: chain.id,
+        start,
+        end,
+        last_processed: getLastProcessedBlockHeight(db, chain.id),
+        ledger_blocks: ledger.length,
+        missing_blocks: missingHeights.length,
+        missing: toRanges(missingHeights),
+        suspicious,
+        rescan: toRanges(rescanHeights.sort((a, b) => a - b)),
+      })
+    }
+
+    return {
+      db_path: DB_PATH,
+      ok: audits.every((a) => a.rescan.length === 0),
+      chains: audits,
+      skipped,
+    }
+  } finally {
+    db.close()
+  }
+}
+
+const main = async () => {
+  const result = runAudit()
+  console.log(JSON.stringify(result, null, 2))
+  if (!result.ok) process.exit(1)
+}
+
+if (require.main === module) {
+  main().catch((err) => {
+    console.error(err)
+    process.exit(1)
+  })
+}
@@ -0,0 +1,113 @@
+import 'dotenv/config'
+import * as fs from 'node:fs'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import type { CaptureStore } from './sqlite'
+import { createCaptureStore, openDb } from './sqlite'
+import { CONSENSUS, domainChainKey } from './chains'
+
+// Benchmark of the capture write path on synthetic blocks: every block gets a timestamp,
+// BENCH_TRANSFERS_PER_BLOCK transfers (init, outbox message and ack rows each) and a
+// progress update. Runs once with one transaction per block, as capture does, and once with
+// every row in its own autocommit transaction, each on a fresh scratch database.
+// Usage: yarn bench:store (BENCH_BLOCKS, BENCH_TRANSFERS_PER_BLOCK)
+
+export type BenchMode = 'per_block' | 'per_row'
+
+export interface BenchResult {
+  mode: BenchMode
+  blocks: number
+  rows: number
+  seconds: number
+  rows_per_second: number
+  blocks_per_second: number
+}
+
+const positiveInteger = (name: string, fallback: number): number => {
+  const value = Number(process.env[name] || fallback)
+  if (!Number.isInteger(value) || value <= 0) {
+    throw new Error(`${name} must be a positive integer (got ${process.env[name]})`)
+  }
+  return value
+}
+
+const writeSyntheticBlock = (store: CaptureStore, h: number, transfers: number): void => {
+  const chain = CONSENSUS
+  const dst = domainChainKey(0)
+  const blockHash = `0x${h.toString(16).padStart(64, '0')}`
+  store.upsertBlockTimestamp({
+    chain,
+    block_height: h,
+    block_hash: blockHash,
+    timestamp_ms: 1_700_000_000_000 + h * 6000,
+  })
+  for (let i = 0; i < transfers; i++) {
+    const key = { dst_chain_id: 1, dst_chain: dst, channel_id: 1, nonce: String(h * transfers + i) }
+    const at = { source_chain: chain, source_block_height: h, source_block_hash: blockHash }
+    store.upsertSourceInit({
+      ...key,
+      ...at,
+      from_address: `0x${(i + 1).toString(16).padStart(64, '0')}`,
+      from_address_type: 'ss58',
+      to_address: null,
+      attribution_path: null,
+      amount: '1000000000000000000',
+      source_extrinsic_index: i + 1,
+    })
+    store.upsertSourceOutboxMessage({ ...key, ...at })
+    store.upsertSourceAck({ ...key, ...at, result: 'Ok' })
+  }
+  store.upsertLedgerEntry({
+    chain,
+    block_height: h,
+    block_hash: blockHash,
+    event_count: 2 + transfers * 4,
+    xdm_event_count: transfers * 3,
+  })
+  store.setLastProcessedBlockHeight(chain, h)
+}
+
+export const runBenchmark = (mode: BenchMode, blocks: number, transfers: number): BenchResult => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'xdm-bench-'))
+  const db = openDb(path.join(dir, 'xdm.sqlite'))
+  try {
+    const store = createCaptureStore(db)
+    const startedAt = process.hrtime.bigint()
+    for (let h = 1; h <= blocks; h++) {
+      if (mode === 'per_block') {
+        store.inTransaction(() => writeSyntheticBlock(store, h, transfers))
+      } else {
+        writeSyntheticBlock(store, h, transfers)
+      }
+    }
+    const seconds = Number(process.hrtime.bigint() - startedAt) / 1e9
+    const rows = store.rowsWritten()
+    return {
+      mode,
+      blocks,
+      rows,
+      seconds: Number(seconds.toFixed(3)),
+      rows_per_second: Math.round(rows / seconds),
+      blocks_per_second: Math.round(blocks / seconds),
+    }
+  } finally {
+    db.close()
+    fs.rmSync(dir, { recursive: true, force: true })
+  }
+}
+
+const main = async () => {
+  const blocks = positiveInteger('BENCH_BLOCKS', 5000)
+  const transfers = positiveInteger('BENCH_TRANSFERS_PER_BLOCK', 3)
+  const results = (['per_block', 'per_row'] as BenchMode[]).map((mode) =>
+    runBenchmark(mode, blocks, transfers),
+  )
+  console.log(JSON.stringify({ transfers_per_block: transfers, results }, null, 2))
+}
+
+if (require.main === module) {
+  main().catch((err) => {
+    console.error(err)
+    process.exit(1)
+  })
+}
@@ -0,0 +1,87 @@
+/**
+ * Call-tree decoding for transfer attribution
+ *
+ * A `transporter.transfer` may be nested inside proxy, multisig and utility calls.
+ * Walking the tree from the extrinsic signer yields every transfer call together with
+ * its effective origin (the account whose funds move) and the path taken to reach it.
+ */
+
+import { stringCamelCase } from '@polkadot/util'
+import { encodeDerivedAddress, encodeMultiAddress } from '@polkadot/util-crypto'
+
+export interface TransferCallAttribution {
+  /** Effective origin of the transfer call (SS58) */
+  origin: string
+  /** Wrapper calls leading to the transfer, e.g. `utility.batchAll[1] > proxy.proxy > transporter.transfer` */
+  path: string
+  /** The `transporter.transfer` call itself */
+  call: any
+}
+
+/**
+ * Returns a call argument by its runtime name (snake_case, e.g. `other_signatories`); the API
+ * decorates call metadata with camelCase names (`otherSignatories`), so both are compared that way
+ */
+export const callArg = (call: any, name: string): any => {
+  const metaArgs: any[] | undefined = call?.meta?.args as any
+  if (!Array.isArray(metaArgs)) return undefined
+  const wanted = stringCamelCase(name)
+  const idx = metaArgs.findIndex((a: any) => stringCamelCase(String(a?.name)) === wanted)
+  return idx >= 0 ? call.args?.[idx] : undefined
+}
+
+// MultiAddress::Id(account) or a plain AccountId, as SS58
+const accountOf = (value: any): string =>
+  value?.isId ? value.asId.toString() : String(value?.toString?.() ?? value)
+
+/**
+ * Collects every transporter.transfer call reachable from `call`, in dispatch order
+ */
+export const collectTransferCalls = (
+  call: any,
+  origin: string,
+  ss58Format?: number,
+  path: string[] = [],
+): TransferCallAttribution[] => {
+  if (!call) return []
+  const name = `${String(call.section)}.${String(call.method)}`
+  const here = [...path, name]
+
+  switch (name) {
+    case 'transporter.transfer':
+      return [{ origin, path: here.join(' > '), call }]
+    case 'proxy.proxy':
+    case 'proxy.proxyAnnounced':
+      return collectTransferCalls(
+        callArg(call, 'call'),
+        accountOf(callArg(call, 'real')),
+        ss58Format,
+        here,
+      )
+    case 'multisig.asMulti':
+    case 'multisig.asMultiThresholdOne': {
+      const others: any[] = Array.from(callArg(call, 'other_signatories') ?? [])
+      const threshold = name === 'multisig.asMulti' ? Number(callArg(call, 'threshold')) : 1
+      const multisig = encodeMultiAddress(
+        [origin, ...others.map((o) => accountOf(o))],
+        threshold,
+        ss58Format,
+      )
+      return collectTransferCalls(callArg(call, 'call'), multisig, ss58Format, here)
+    }
+    case 'utility.asDerivative': {
+      const derived = encodeDerivedAddress(origin, Number(callArg(call, 'index')), ss58Format)
+      return collectTransferCalls(callArg(call, 'call'), derived, ss58Format, here)
+    }
+    case 'utility.batch':
+    case 'utility.batchAll':
+    case 'utility.forceBatch': {
+      const calls: any[] = Array.from(callArg(call, 'calls') ?? [])
+      return calls.flatMap((inner, i) =>
+        collectTransferCalls(inner, origin, ss58Format, [...path, `${name}[${i}]`]),
+      )
+    }
+    default:
+      return []
+  }
+}
@@ -0,0 +1,84 @@
+import 'dotenv/config'
+import { runScan } from './scan-runner'
+import type { ScanProgress, ScanResult } from './scan-runner'
+import { disconnectApi } from './chain'
+import { captureOptionsFromEnv, hasCaptureBounds } from './capture-options'
+import { loadChainRegistry } from './chains'
+import type { ChainKey } from './chains'
+import { openDb } from './sqlite'
+import { runMatch } from './match'
+import type { MatchSummary } from './match'
+
+// Captures consensus and every configured domain in one process, then runs match
+const PROGRESS_INTERVAL_MS = Math.max(1000, Number(process.env.PROGRESS_INTERVAL_MS || 10000))
+
+export interface CaptureAllSummary {
+  chains: ScanResult[]
+  match: MatchSummary
+}
+
+const formatProgress = (p: ScanProgress): string => {
+  if (p.phase !== 'capturing') return `${p.chain} ${p.phase} (${p.blocks} blocks, ${p.rows} rows)`
+  const total = Math.max(p.to - p.from + 1, 0)
+  const pct = total === 0 ? 100 : Math.floor((Math.min(p.blocks, total) / total) * 100)
+  return `${p.chain} ${p.blocks}/${total} blocks (${pct}%), ${p.rows} rows`
+}
+
+export const runCaptureAll = async (): Promise<CaptureAllSummary> => {
+  if (process.env.FOLLOW === 'true' || process.argv.includes('--follow')) {
+    throw new Error(
+      'capture:all does not follow; use capture:consensus:follow / capture:domain:follow',
+    )
+  }
+  const scans = loadChainRegistry().map((chain) => captureOptionsFromEnv(chain, false))
+  const incomplete = scans.filter((opts) => !hasCaptureBounds(opts)).map((opts) => opts.chain)
+  if (incomplete.length > 0) {
+    throw new Error(
+      `RPC URL, start and end height are required for ${incomplete.join(', ')}; heights can also come from yarn derive-window`,
+    )
+  }
+  // Fixture archives are keyed by request only, so chains cannot share one
+  if (scans.length > 1 && scans.some((opts) => opts.fixture) && process.env.RPC_FIXTURE_PATH) {
+    throw new Error('RPC_FIXTURE_PATH names one archive; unset it so each chain gets its own')
+  }
+
+  const db = openDb(scans[0].dbPath)
+  const progress = new Map<ChainKey, ScanProgress>()
+  const printProgress = () => {
+    const parts = scans.map((opts) => {
+      const p = progress.get(opts.chain)
+      return p ? formatProgress(p) : `${opts.chain} connecting`
+    })
+    console.log(`[all] ${parts.join(' | ')}`)
+  }
+  const onProgress = (p: ScanProgress) => {
+    const phaseChanged = progress.get(p.chain)?.phase !== p.phase
+    progress.set(p.chain, p)
+    if (phaseChanged) printProgress()
+  }
+
+  const ticker = setInterval(printProgress, PROGRESS_INTERVAL_MS)
+  let chains: ScanResult[]
+  try {
+    chains = await Promise.all(scans.map((opts) => runScan({ ...opts, db, onProgress })))
+  } finally {
+    clearInterval(ticker)
+    db.close()
+    await disconnectApi()
+  }
+
+  console.log('[all] capture complete; running match')
+  return { chains, match: await runMatch() }
+}
+
+const main = async () => {
+  const summary = await runCaptureAll()
+  console.log(JSON.stringify(summary, null, 2))
+}
+
+if (require.main === module) {
+  main().catch((err) => {
+    console.error(err)
+    process.exit(1)
+  })
+}
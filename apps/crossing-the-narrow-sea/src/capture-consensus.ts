@@ -1,33 +1,21 @@
 import 'dotenv/config'
 import { runScan } from './scan-runner'
+import { disconnectApi } from './chain'
+import { captureOptionsFromEnv, hasCaptureBounds } from './capture-options'
+import { CONSENSUS, getChainConfig } from './chains'
 
-const CONSENSUS_RPC_URL = process.env.CONSENSUS_RPC_URL as string
-const rpcEndpoints = CONSENSUS_RPC_URL.split(',')
-const START = Number(process.env.CONSENSUS_START_HEIGHT)
-const END = Number(process.env.CONSENSUS_END_HEIGHT)
-const OUTPUT_DIR = process.env.OUTPUT_DIR || 'exports'
-const DB_PATH = `${OUTPUT_DIR}/xdm.sqlite`
-const RETRY_BACKOFF_MS = Number(process.env.RPC_BACKOFF_MS || 1000)
-const RETRY_MAX_BACKOFF_MS = Number(process.env.RPC_MAX_BACKOFF_MS || 10000)
-const BLOCK_CONCURRENCY = Math.max(1, Number(process.env.BLOCK_CONCURRENCY || 8))
+const FOLLOW = process.env.FOLLOW === 'true' || process.argv.includes('--follow')
 
 const main = async () => {
-  if (!rpcEndpoints || !START || !END) {
-    throw new Error('CONSENSUS_RPC_URL, CONSENSUS_START_HEIGHT, CONSENSUS_END_HEIGHT are required')
+  const opts = captureOptionsFromEnv(getChainConfig(CONSENSUS), FOLLOW)
+  if (!hasCaptureBounds(opts)) {
+    throw new Error(
+      'CONSENSUS_RPC_URL, CONSENSUS_START_HEIGHT, CONSENSUS_END_HEIGHT (unless --follow) are required',
+    )
   }
 
-  await runScan({
-    rpcEndpoints,
-    dbPath: DB_PATH,
-    chain: 'consensus',
-    logPrefix: '[consensus]',
-    start: START,
-    end: END,
-    blockConcurrency: BLOCK_CONCURRENCY,
-    retryBackoffMs: RETRY_BACKOFF_MS,
-    retryMaxBackoffMs: RETRY_MAX_BACKOFF_MS,
-    useSegments: false,
-  })
+  await runScan(opts)
+  await disconnectApi()
 }
 
 main().catch((err) => {
@@ -1,32 +1,23 @@
 import 'dotenv/config'
 import { runScan } from './scan-runner'
+import { disconnectApi } from './chain'
+import { captureOptionsFromEnv, hasCaptureBounds } from './capture-options'
+import { domainChainKey, getChainConfig } from './chains'
 
-const DOMAIN_RPC_URL = process.env.DOMAIN_RPC_URL as string
-const rpcEndpoints = DOMAIN_RPC_URL.split(',')
-const START = Number(process.env.DOMAIN_START_HEIGHT)
-const END = Number(process.env.DOMAIN_END_HEIGHT)
-const OUTPUT_DIR = process.env.OUTPUT_DIR || 'exports'
-const DB_PATH = `${OUTPUT_DIR}/xdm.sqlite`
-const RETRY_BACKOFF_MS = Number(process.env.RPC_BACKOFF_MS || 1000)
-const RETRY_MAX_BACKOFF_MS = Number(process.env.RPC_MAX_BACKOFF_MS || 10000)
-const BLOCK_CONCURRENCY = Math.max(1, Number(process.env.BLOCK_CONCURRENCY || 8))
+// Domain to capture: `--domain=<N>` or DOMAIN_ID (default 0)
+const domainArg = process.argv.find((a) => a.startsWith('--domain='))
+const DOMAIN_ID = Number(domainArg ? domainArg.split('=')[1] : process.env.DOMAIN_ID || 0)
+const FOLLOW = process.env.FOLLOW === 'true' || process.argv.includes('--follow')
 
 const main = async () => {
-  if (!rpcEndpoints || !START || !END) {
-    throw new Error('DOMAIN_RPC_URL, DOMAIN_START_HEIGHT, DOMAIN_END_HEIGHT are required')
+  const opts = captureOptionsFromEnv(getChainConfig(domainChainKey(DOMAIN_ID)), FOLLOW)
+  if (!hasCaptureBounds(opts)) {
+    throw new Error(
+      `DOMAIN_${DOMAIN_ID}_RPC_URL, DOMAIN_${DOMAIN_ID}_START_HEIGHT, DOMAIN_${DOMAIN_ID}_END_HEIGHT (unless --follow) are required; heights can also come from yarn derive-window`,
+    )
   }
-  await runScan({
-    rpcEndpoints,
-    dbPath: DB_PATH,
-    chain: 'domain',
-    logPrefix: '[domain]',
-    start: START,
-    end: END,
-    blockConcurrency: BLOCK_CONCURRENCY,
-    retryBackoffMs: RETRY_BACKOFF_MS,
-    retryMaxBackoffMs: RETRY_MAX_BACKOFF_MS,
-    useSegments: true,
-  })
+  await runScan(opts)
+  await disconnectApi()
 }
 
 main().catch((err) => {
@@ -0,0 +1,41 @@
+import type { ChainConfig } from './chains'
+import { fixtureOptionsFromEnv } from './rpc-fixtures'
+import { rateLimitFromEnv } from './rate-limit'
+import { poolOptionsFromEnv } from './rpc-pool'
+import type { RunScanOptions } from './scan-runner'
+
+/**
+ * Scan options for `chain` from the environment, shared by the capture commands
+ *
+ * In follow mode the end height is optional; without it capture keeps following indefinitely.
+ */
+export const captureOptionsFromEnv = (chain: ChainConfig, follow: boolean): RunScanOptions => {
+  const outputDir = process.env.OUTPUT_DIR || 'exports'
+  return {
+    rpcEndpoints: chain.rpcEndpoints,
+    dbPath: `${outputDir}/xdm.sqlite`,
+    chain: chain.id,
+    logPrefix: `[${chain.id}]`,
+    start: chain.start,
+    end: Number.isNaN(chain.captureEnd) && follow ? Number.POSITIVE_INFINITY : chain.captureEnd,
+    blockConcurrency: Math.max(1, Number(process.env.BLOCK_CONCURRENCY || 8)),
+    minConcurrency: Math.max(1, Number(process.env.BLOCK_CONCURRENCY_MIN || 1)),
+    adaptiveConcurrency: process.env.ADAPTIVE_CONCURRENCY !== 'false',
+    lookahead: Math.max(1, Number(process.env.SCAN_LOOKAHEAD || 512)),
+    retryBackoffMs: Number(process.env.RPC_BACKOFF_MS || 1000),
+    retryMaxBackoffMs: Number(process.env.RPC_MAX_BACKOFF_MS || 10000),
+    useSegments: chain.useSegments,
+    verifyCanonical: process.env.VERIFY_CANONICAL !== 'false',
+    follow,
+    followStallMs: Number(process.env.FOLLOW_STALL_MS || 120000),
+    fixture: fixtureOptionsFromEnv(chain.id, outputDir),
+    rateLimit: rateLimitFromEnv(),
+    pool: poolOptionsFromEnv(),
+  }
+}
+
+/**
+ * Whether the options name an RPC endpoint, a start height and an end height (or follow mode)
+ */
+export const hasCaptureBounds = (opts: RunScanOptions): boolean =>
+  opts.rpcEndpoints.length > 0 && !!opts.start && !!opts.end
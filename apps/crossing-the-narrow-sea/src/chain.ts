@@ -1,5 +1,17 @@
 import { ApiPromise, WsProvider } from '@polkadot/api'
+import type { ProviderInterface } from '@polkadot/rpc-provider/types'
 import type { EventRecord, Header, Hash } from '@polkadot/types/interfaces'
+import {
+  createFixtureRecorder,
+  createRecordingProvider,
+  createReplayProvider,
+} from './rpc-fixtures'
+import type { FixtureOptions, FixtureRecorder } from './rpc-fixtures'
+import { createRateLimitedProvider } from './rate-limit'
+import type { RateLimitOptions } from './rate-limit'
+import { createApiPool } from './rpc-pool'
+import type { ApiPool, PoolOptions } from './rpc-pool'
+import type { ChainKey } from './chains'
 
 interface VecLike<T = unknown> {
   toArray: () => T[]
@@ -18,105 +30,240 @@ interface SystemModuleExtended {
   eventCount?: { at: (hash: Hash | string) => Promise<unknown> }
 }
 
-let apiInstance: ApiPromise | null = null
-let providerInstance: WsProvider | null = null
-let isReconnecting = false
+/**
+ * Connections of one chain: the failover API (`getApi`), the capture pool (`getApiPool`) and
+ * the fixture recorder both of them write to
+ */
+interface ChainConnection {
+  api: ApiPromise | null
+  provider: ProviderInterface | null
+  isReconnecting: boolean
+  pool: ApiPool | null
+  recorder: FixtureRecorder | null
+}
+
+// Keyed by chain id, so one process can hold connections to several chains
+const connections = new Map<ChainKey, ChainConnection>()
+
+// Once one pool endpoint is ready, how long to wait for the others before starting
+const POOL_CONNECT_GRACE_MS = 5000
+
+const connectionFor = (chain: ChainKey): ChainConnection => {
+  let conn = connections.get(chain)
+  if (!conn) {
+    conn = { api: null, provider: null, isReconnecting: false, pool: null, recorder: null }
+    connections.set(chain, conn)
+  }
+  return conn
+}
+
+const getOrCreateRecorder = (conn: ChainConnection, fixture: FixtureOptions): FixtureRecorder => {
+  if (!conn.recorder) conn.recorder = createFixtureRecorder(fixture.path)
+  return conn.recorder
+}
 
-const getOrCreateProvider = (rpcEndpoints: string[]): WsProvider => {
-  if (providerInstance) return providerInstance
+const getOrCreateProvider = (
+  chain: ChainKey,
+  rpcEndpoints: string[],
+  fixture?: FixtureOptions,
+  rateLimit?: RateLimitOptions,
+): ProviderInterface => {
+  const conn = connectionFor(chain)
+  if (conn.provider) return conn.provider
+
+  if (fixture?.mode === 'replay') {
+    conn.provider = createReplayProvider(fixture.path)
+    return conn.provider
+  }
 
   const provider = new WsProvider(rpcEndpoints)
-  providerInstance = provider
+  // Rate limit by the endpoint WsProvider is currently connected to (it rotates on failure)
+  const limited = rateLimit
+    ? createRateLimitedProvider(provider, rateLimit, () => provider.endpoint)
+    : provider
+  conn.provider =
+    fixture?.mode === 'record'
+      ? createRecordingProvider(limited, getOrCreateRecorder(conn, fixture))
+      : limited
 
   provider.on('connected', () => {
-    console.info({ endpoints: rpcEndpoints }, 'chain connected')
-    console.info({ connectedEndpoint: provider.endpoint }, 'connected endpoint')
+    console.info({ chain, endpoints: rpcEndpoints }, 'chain connected')
+    console.info({ chain, connectedEndpoint: provider.endpoint }, 'connected endpoint')
   })
 
   provider.on('disconnected', () => {
-    console.warn('chain disconnected')
+    console.warn({ chain }, 'chain disconnected')
     // Do not tear down; allow WsProvider to auto-rotate/retry
-    void triggerReconnect()
+    void triggerReconnect(chain)
   })
 
   provider.on('error', (err) => {
-    console.error({ err }, 'chain provider error')
+    console.error({ chain, err }, 'chain provider error')
     // Do not tear down; allow WsProvider to auto-rotate/retry
-    void triggerReconnect()
+    void triggerReconnect(chain)
   })
 
-  return providerInstance
+  return conn.provider
 }
 
-const triggerReconnect = async (): Promise<void> => {
-  if (!apiInstance || isReconnecting) return
-  if (apiInstance.isConnected) return
-  isReconnecting = true
+const triggerReconnect = async (chain: ChainKey): Promise<void> => {
+  const conn = connectionFor(chain)
+  const api = conn.api
+  if (!api || conn.isReconnecting) return
+  if (api.isConnected) return
+  conn.isReconnecting = true
   try {
-    console.warn('chain api disconnected; attempting reconnect')
-    await apiInstance.connect()
-    await apiInstance.isReadyOrError
-    console.info('chain api reconnected')
+    console.warn({ chain }, 'chain api disconnected; attempting reconnect')
+    await api.connect()
+    await api.isReadyOrError
+    console.info({ chain }, 'chain api reconnected')
   } catch (err) {
-    console.warn({ err }, 'chain api reconnect attempt failed; provider will keep retrying')
+    console.warn({ chain, err }, 'chain api reconnect attempt failed; provider will keep retrying')
   } finally {
-    isReconnecting = false
+    conn.isReconnecting = false
   }
 }
 
-export const getApi = async (rpcEndpoints: string[]): Promise<ApiPromise> => {
-  if (apiInstance) {
-    if (apiInstance.isConnected) return apiInstance
-    await triggerReconnect()
-    await apiInstance.isReadyOrError
-    return apiInstance
+/**
+ * API for `chain` over one WsProvider that fails over between `rpcEndpoints`; created on
+ * first use and reused for later calls with the same chain id
+ */
+export const getApi = async (
+  chain: ChainKey,
+  rpcEndpoints: string[],
+  fixture?: FixtureOptions,
+  rateLimit?: RateLimitOptions,
+): Promise<ApiPromise> => {
+  const conn = connectionFor(chain)
+  if (conn.api) {
+    if (conn.api.isConnected) return conn.api
+    await triggerReconnect(chain)
+    await conn.api.isReadyOrError
+    return conn.api
   }
 
-  const provider = getOrCreateProvider(rpcEndpoints)
+  const provider = getOrCreateProvider(chain, rpcEndpoints, fixture, rateLimit)
+
+  const api = await ApiPromise.create({ provider, noInitWarn: fixture?.mode === 'replay' })
+  conn.api = api
+
+  api.on('error', (err) => {
+    console.error({ chain, err }, 'chain api error')
+    // Keep provider alive; ApiPromise will recover when provider reconnects
+  })
+
+  api.on('connected', () => {
+    console.info({ chain }, 'chain api connected')
+  })
 
-  if (!apiInstance) {
-    apiInstance = await ApiPromise.create({ provider })
+  api.on('disconnected', () => {
+    console.warn({ chain }, 'chain api disconnected')
+    void triggerReconnect(chain)
+  })
 
-    apiInstance.on('error', (err) => {
-      console.error({ err }, 'chain api error')
-      // Keep provider alive; ApiPromise will recover when provider reconnects
-    })
+  await api.isReadyOrError
+  console.info({ chain }, 'chain api ready')
 
-    apiInstance.on('connected', () => {
-      console.info('chain api connected')
-    })
+  return api
+}
 
-    apiInstance.on('disconnected', () => {
-      console.warn('chain api disconnected')
-      void triggerReconnect()
-    })
+/**
+ * Connects to every endpoint separately (one WsProvider and ApiPromise each) and returns a pool
+ * that spreads work across them. Resolves once at least one endpoint is ready; endpoints that
+ * connect later join the rotation then. A replay pool has the fixture archive as its only member.
+ */
+export const getApiPool = async (
+  chain: ChainKey,
+  rpcEndpoints: string[],
+  pool: PoolOptions,
+  fixture?: FixtureOptions,
+  rateLimit?: RateLimitOptions,
+): Promise<ApiPool> => {
+  const conn = connectionFor(chain)
+  if (conn.pool) return conn.pool
 
-    await apiInstance.isReadyOrError
-    console.info('chain api ready')
+  const connect = (endpoint: string, provider: ProviderInterface) => {
+    const api = new ApiPromise({ provider, noInitWarn: fixture?.mode === 'replay' })
+    api.on('error', (err) => console.error({ chain, endpoint, err }, 'chain api error'))
+    api.on('disconnected', () => console.warn({ chain, endpoint }, 'chain api disconnected'))
+    api.on('connected', () => console.info({ chain, endpoint }, 'chain api connected'))
+    return { endpoint, api }
   }
 
-  return apiInstance
+  const members =
+    fixture?.mode === 'replay'
+      ? [connect(fixture.path, createReplayProvider(fixture.path))]
+      : rpcEndpoints.map((endpoint) => {
+          const ws = new WsProvider(endpoint)
+          const limited = rateLimit ? createRateLimitedProvider(ws, rateLimit, () => endpoint) : ws
+          const provider =
+            fixture?.mode === 'record'
+              ? createRecordingProvider(limited, getOrCreateRecorder(conn, fixture))
+              : limited
+          return connect(endpoint, provider)
+        })
+  const apiPool = createApiPool(members, pool)
+  conn.pool = apiPool
+
+  // First endpoint ready, then a short grace period for the rest
+  const ready = members.map(({ endpoint, api }) =>
+    api.isReadyOrError.then(() => console.info({ chain, endpoint }, 'chain api ready')),
+  )
+  await new Promise<void>((resolve, reject) => {
+    let failed = 0
+    for (const r of ready) {
+      r.then(resolve, (err) => {
+        failed += 1
+        if (failed === ready.length) reject(err)
+      })
+    }
+  })
+  let grace: ReturnType<typeof setTimeout> | undefined
+  await Promise.race([
+    Promise.allSettled(ready),
+    new Promise((r) => {
+      grace = setTimeout(r, POOL_CONNECT_GRACE_MS)
+    }),
+  ])
+  clearTimeout(grace)
+  return apiPool
 }
 
-export const disconnectApi = async (): Promise<void> => {
-  if (apiInstance) {
-    try {
-      await apiInstance.disconnect()
-    } catch (e) {
-      console.warn({ err: e }, 'error disconnecting ApiPromise')
-    } finally {
-      apiInstance = null
+/**
+ * Closes the connections of `chain`, or of every chain when omitted
+ */
+export const disconnectApi = async (chain?: ChainKey): Promise<void> => {
+  const chains = chain == null ? [...connections.keys()] : [chain]
+  for (const key of chains) {
+    const conn = connections.get(key)
+    if (!conn) continue
+    connections.delete(key)
+
+    for (const api of conn.pool?.apis() ?? []) {
+      try {
+        await api.disconnect()
+      } catch (e) {
+        console.warn({ chain: key, err: e }, 'error disconnecting pooled ApiPromise')
+      }
     }
-  }
 
-  if (providerInstance) {
-    try {
-      await providerInstance.disconnect()
-    } catch (e) {
-      console.warn({ err: e }, 'error disconnecting WsProvider')
-    } finally {
-      providerInstance = null
+    if (conn.api) {
+      try {
+        await conn.api.disconnect()
+      } catch (e) {
+        console.warn({ chain: key, err: e }, 'error disconnecting ApiPromise')
+      }
     }
+
+    if (conn.provider) {
+      try {
+        await conn.provider.disconnect()
+      } catch (e) {
+        console.warn({ chain: key, err: e }, 'error disconnecting WsProvider')
+      }
+    }
+
+    conn.recorder?.close()
   }
 }
 
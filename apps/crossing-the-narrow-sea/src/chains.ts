@@ -0,0 +1,134 @@
+/**
+ * Chain registry: every chain taking part in a trial, keyed by chain id
+ *
+ * Chain ids are `consensus` and `domain-<N>`; they are what gets stored in the
+ * `*_chain` columns of xdm.sqlite and in `scan_progress`.
+ *
+ * Configuration comes from the environment:
+ * - consensus: `CONSENSUS_RPC_URL`, `CONSENSUS_START_HEIGHT`, `CONSENSUS_END_HEIGHT`
+ * - domain N: `DOMAIN_<N>_RPC_URL`, `DOMAIN_<N>_START_HEIGHT`, `DOMAIN_<N>_END_HEIGHT`,
+ *   `DOMAIN_<N>_USE_SEGMENTS` (default true)
+ * - domain 0 also falls back to the unnumbered `DOMAIN_*` variables
+ *
+ * Heights that are not set fall back to the run config written by `derive-window`
+ * (see run-config.ts); the late-delivery grace is added on top of each end height to get
+ * the height capture runs to.
+ */
+
+import type { RunConfig } from './run-config'
+import { lateDeliveryFromEnv, readRunConfig } from './run-config'
+
+export type ChainKey = string
+
+export type Direction = 'd2c' | 'c2d' | 'd2d'
+
+export interface ChainConfig {
+  id: ChainKey
+  /** Domain id for domains, null for the consensus chain */
+  domainId: number | null
+  rpcEndpoints: string[]
+  /** First height of the trial window (NaN when not configured) */
+  start: number
+  /** Last height of the trial window (NaN when not configured) */
+  end: number
+  /** Last height to capture: `end` plus the late-delivery grace blocks */
+  captureEnd: number
+  /** Read events through `system.eventSegments` instead of `system.events` */
+  useSegments: boolean
+}
+
+export const CONSENSUS: ChainKey = 'consensus'
+
+/** Chain id used for domain 0 by databases created before the registry existed */
+export const LEGACY_DOMAIN_LABEL = 'domain'
+
+export const domainChainKey = (domainId: number): ChainKey => `domain-${domainId}`
+
+export const isConsensus = (chain: ChainKey): boolean => chain === CONSENSUS
+
+export const directionOf = (source: ChainKey, destination: ChainKey): Direction =>
+  isConsensus(destination) ? 'd2c' : isConsensus(source) ? 'c2d' : 'd2d'
+
+/**
+ * Converts an XDM `ChainId` (`Consensus | Domain(u32)`) event field to a chain id
+ */
+export const xdmChainKey = (chainId: any): ChainKey => {
+  if (chainId?.isConsensus) return CONSENSUS
+  if (chainId?.isDomain) return domainChainKey(Number(chainId.asDomain.toString()))
+  const json = chainId?.toJSON ? chainId.toJSON() : chainId
+  if (typeof json === 'string' && json.toLowerCase() === 'consensus') return CONSENSUS
+  if (json && typeof json === 'object' && 'domain' in json) {
+    return domainChainKey(Number((json as { domain: unknown }).domain))
+  }
+  throw new Error(`unrecognized XDM chain id: ${String(chainId)}`)
+}
+
+const splitEndpoints = (value: string | undefined): string[] =>
+  (value || '')
+    .split(',')
+    .map((e) => e.trim())
+    .filter((e) => e !== '')
+
+// An explicit environment height wins over the derived one
+const heightFrom = (value: string | undefined, derived?: number): number =>
+  value ? Number(value) : (derived ?? NaN)
+
+const captureEndOf = (end: number, env: typeof process.env, runConfig: RunConfig | null) =>
+  end + lateDeliveryFromEnv(env, runConfig).grace_blocks
+
+const domainConfig = (
+  domainId: number,
+  env: typeof process.env,
+  runConfig: RunConfig | null,
+): ChainConfig => {
+  const read = (name: string) =>
+    env[`DOMAIN_${domainId}_${name}`] ?? (domainId === 0 ? env[`DOMAIN_${name}`] : undefined)
+  const derived = runConfig?.domains[domainChainKey(domainId)]
+  const end = heightFrom(read('END_HEIGHT'), derived?.end)
+  return {
+    id: domainChainKey(domainId),
+    domainId,
+    rpcEndpoints: splitEndpoints(read('RPC_URL')),
+    start: heightFrom(read('START_HEIGHT'), derived?.start),
+    end,
+    captureEnd: captureEndOf(end, env, runConfig),
+    useSegments: read('USE_SEGMENTS') !== 'false',
+  }
+}
+
+/**
+ * Builds the registry from the environment: consensus plus every domain with an RPC URL
+ */
+export const loadChainRegistry = (env: typeof process.env = process.env): ChainConfig[] => {
+  const domainIds = new Set<number>()
+  if (env.DOMAIN_RPC_URL) domainIds.add(0)
+  for (const key of Object.keys(env)) {
+    const m = /^DOMAIN_(\d+)_RPC_URL$/.exec(key)
+    if (m && env[key]) domainIds.add(Number(m[1]))
+  }
+
+  const runConfig = readRunConfig(env)
+  const end = heightFrom(env.CONSENSUS_END_HEIGHT, runConfig?.consensus.end)
+  const consensus: ChainConfig = {
+    id: CONSENSUS,
+    domainId: null,
+    rpcEndpoints: splitEndpoints(env.CONSENSUS_RPC_URL),
+    start: heightFrom(env.CONSENSUS_START_HEIGHT, runConfig?.consensus.start),
+    end,
+    captureEnd: captureEndOf(end, env, runConfig),
+    useSegments: env.CONSENSUS_USE_SEGMENTS === 'true',
+  }
+
+  const domains = [...domainIds].sort((a, b) => a - b)
+  return [consensus, ...domains.map((id) => domainConfig(id, env, runConfig))]
+}
+
+export const getChainConfig = (
+  chain: ChainKey,
+  env: typeof process.env = process.env,
+): ChainConfig => {
+  if (isConsensus(chain)) return loadChainRegistry(env)[0]
+  const m = /^domain-(\d+)$/.exec(chain)
+  if (!m) throw new Error(`unknown chain id: ${chain} (expected consensus or domain-<N>)`)
+  return domainConfig(Number(m[1]), env, readRunConfig(env))
+}
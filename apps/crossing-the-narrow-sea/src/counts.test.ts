@@ -0,0 +1,71 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import * as fs from 'node:fs'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import { u8aToHex } from '@polkadot/util'
+import { encodeAddress } from '@polkadot/util-crypto'
+import type { Direction } from './chains'
+import { DEFAULT_SS58_PREFIX } from './address'
+import { MANIFEST_FILE } from './manifest'
+
+const outputDir = fs.mkdtempSync(path.join(os.tmpdir(), 'counts-test-'))
+process.env.OUTPUT_DIR = outputDir
+process.env.SS58_PREFIX = String(DEFAULT_SS58_PREFIX)
+delete process.env.ELIGIBILITY_RULES
+
+const publicKey = (i: number) => new Uint8Array(32).fill(i + 1)
+
+// Ten wallets with one transfer per direction each, so every wallet ties with every other;
+// each file lists them in a different order
+const writeTransfers = (direction: Direction, order: number[]) => {
+  const route: Record<Direction, [string, string]> = {
+    d2c: ['domain-0', 'consensus'],
+    c2d: ['consensus', 'domain-0'],
+    d2d: ['domain-0', 'domain-1'],
+  }
+  const [source, destination] = route[direction]
+  const rows = order.map((i) => ({
+    direction,
+    source_chain: source,
+    destination_chain: destination,
+    channel_id: 0,
+    nonce: `${direction}-${i}`,
+    from: encodeAddress(publicKey(i), 42),
+    amount: String(BigInt(i + 1) * 10n ** 18n),
+    source_timestamp: 1_700_000_000_000 + i * 60_000,
+  }))
+  fs.writeFileSync(
+    path.join(outputDir, `${direction}_transfers.ndjson`),
+    rows.map((r) => JSON.stringify(r)).join('\n') + '\n',
+  )
+}
+
+const wallets = [...Array(10).keys()]
+writeTransfers('d2c', [...wallets].reverse())
+writeTransfers('c2d', wallets)
+writeTransfers('d2d', [3, 7, 1, 9, 0, 5, 2, 8, 6, 4])
+
+const runOnce = async () => {
+  const { runCounts } = await import('./counts')
+  const run = await runCounts({ html: false })
+  const manifest = JSON.parse(fs.readFileSync(path.join(outputDir, MANIFEST_FILE), 'utf8'))
+  return {
+    results_sha256: manifest.counts.results_sha256 as string,
+    merkle_root: run.result.merkle.root,
+    timeseries: fs.readFileSync(run.result.files.wallet_timeseries, 'utf8'),
+    combined: run.result.combined.map((w) => w.public_key),
+  }
+}
+
+test('counts reruns over the same files give the same digests', async (t) => {
+  t.after(() => fs.rmSync(outputDir, { recursive: true, force: true }))
+  const first = await runOnce()
+  const second = await runOnce()
+  assert.deepEqual(second, first)
+  // Equal counts fall back to the public key
+  assert.deepEqual(
+    first.combined,
+    wallets.map((i) => u8aToHex(publicKey(i))),
+  )
+})
@@ -2,13 +2,42 @@ import * as dotenv from 'dotenv'
 import * as fs from 'node:fs'
 import * as path from 'node:path'
 import * as readline from 'node:readline'
-import type { TransferRow, CountsResult } from './types'
+import type {
+  TransferRow,
+  CountsResult,
+  WalletEntry,
+  CombinedWalletEntry,
+  DirectionVolume,
+  ExcludedTransfer,
+  RouteTotal,
+  WalletSybil,
+  WalletTimeseries,
+  WalletProof,
+} from './types'
+import type { Direction } from './chains'
+import { loadChainRegistry } from './chains'
+import type { CanonicalAddress } from './address'
+import { canonicalAddress, ss58PrefixFromEnv } from './address'
+import { parseAmount, tokenFromEnv, volumeHistogram, volumeStats } from './volume'
+import type { Granularity, SeriesCollector } from './timeseries'
+import { createSeriesCollector, mergeSeries } from './timeseries'
+import type { EligibilityEvaluator } from './eligibility'
+import { createEligibilityEvaluator, eligibilitySummary, loadEligibilityRules } from './eligibility'
+import { readSybilReport, sybilReportPath } from './sybil'
+import { manifestEnabled, sha256File, writeCountsManifest } from './manifest'
+import type { MerkleTree } from './merkle'
+import { buildMerkleTree, merkleLeaf } from './merkle'
 import { generateHtmlLeaderboard } from './htmlLeaderboard'
 
 // Load .env from project root first
 dotenv.config({ path: path.resolve(__dirname, '../../../.env'), quiet: true })
-// Then load from local directory (overrides root if exists)
-dotenv.config({ path: path.resolve(__dirname, '../.env'), override: true, quiet: true })
+// Then load from local directory (overrides root if exists; `DOTENV_OVERRIDE=false` keeps
+// variables already set in the process, as `verify` needs for its replay)
+dotenv.config({
+  path: path.resolve(__dirname, '../.env'),
+  override: process.env.DOTENV_OVERRIDE !== 'false',
+  quiet: true,
+})
 
 const OUTPUT_DIR = process.env.OUTPUT_DIR || 'exports'
 
@@ -18,15 +47,31 @@ const ensureDir = (dirPath: string): void => {
   }
 }
 
+interface DirectionCounts {
+  /** Transfers per canonical wallet key */
+  counts: Record<string, number>
+  /** Transferred amounts (base units) per canonical wallet key */
+  amounts: Map<string, bigint[]>
+  series: SeriesCollector
+  total: number
+  routes: RouteTotal[]
+}
+
 const readNdjsonCounts = async (
   filePath: string,
-  expectedDirection: 'd2c' | 'c2d',
-): Promise<{ counts: Record<string, number>; total: number }> => {
+  expectedDirection: Direction,
+  wallets: Map<string, CanonicalAddress>,
+  ss58Prefix: number,
+  eligibility: EligibilityEvaluator,
+): Promise<DirectionCounts> => {
   const counts: Record<string, number> = {}
+  const amounts = new Map<string, bigint[]>()
+  const series = createSeriesCollector()
+  const routes = new Map<string, RouteTotal>()
   let total = 0
 
   if (!fs.existsSync(filePath)) {
-    return { counts, total }
+    return { counts, amounts, series, total, routes: [] }
   }
 
   const stream = fs.createReadStream(filePath, { encoding: 'utf8' })
@@ -40,14 +85,185 @@ const readNdjsonCounts = async (
       if (!row || row.direction !== expectedDirection) continue
       const from = String(row.from || '')
       if (!from) continue
-      counts[from] = (counts[from] ?? 0) + 1
+      const wallet = canonicalAddress(from, ss58Prefix)
+      wallets.set(wallet.key, wallet)
+      counts[wallet.key] = (counts[wallet.key] ?? 0) + 1
       total += 1
+      const amount = parseAmount(row.amount)
+      if (amount != null) {
+        const walletAmounts = amounts.get(wallet.key) ?? []
+        walletAmounts.push(amount)
+        amounts.set(wallet.key, walletAmounts)
+      }
+      series.add(wallet.key, row.source_timestamp ?? row.dest_timestamp ?? null, amount)
+      eligibility.add(wallet.key, row, amount)
+      const source = String(row.source_chain || '')
+      const destination = String(row.destination_chain || '')
+      const key = `${source}->${destination}`
+      const route = routes.get(key) ?? {
+        source_chain: source,
+        destination_chain: destination,
+        direction: expectedDirection,
+        transfers: 0,
+      }
+      route.transfers += 1
+      routes.set(key, route)
     } catch {
       // skip malformed line
     }
   }
 
-  return { counts, total }
+  return { counts, amounts, series, total, routes: [...routes.values()] }
+}
+
+const directionVolume = (amounts: bigint[], decimals: number): DirectionVolume => ({
+  ...volumeStats(amounts, decimals),
+  histogram: volumeHistogram(amounts, decimals),
+})
+
+// Use 6 decimals to show meaningful percentages for even single transfers
+// 1 transfer out of overall total (2,718,350) = 0.000037%
+const sharePercent = (count: number, overallTotal: number): string =>
+  ((count / overallTotal) * 100).toFixed(6) + '%'
+
+interface RankKey {
+  key: string
+  eligible: number
+  count: number
+}
+
+// Ranked by eligible transfers, then by raw transfers (the same order when no rules apply);
+// ties fall back to the public key so reruns over the same input rank wallets identically
+const byEligibleThenRaw = (a: RankKey, b: RankKey): number =>
+  b.eligible - a.eligible || b.count - a.count || (a.key < b.key ? -1 : a.key > b.key ? 1 : 0)
+
+const rankWallets = (
+  direction: DirectionCounts,
+  eligible: Record<string, number>,
+  sybil: Map<string, WalletSybil>,
+  wallets: Map<string, CanonicalAddress>,
+  overallTotal: number,
+  decimals: number,
+): WalletEntry[] =>
+  Object.entries(direction.counts)
+    .map(([key, count]) => ({ key, count, eligible: eligible[key] ?? 0 }))
+    .sort(byEligibleThenRaw)
+    .map(({ key, count, eligible }) => {
+      const wallet = wallets.get(key) as CanonicalAddress
+      return {
+        wallet: wallet.display,
+        address_type: wallet.type,
+        count,
+        eligible,
+        sybil_score: sybil.get(key)?.score ?? 0,
+        sybil_flags: sybil.get(key)?.flags ?? [],
+        percent: sharePercent(count, overallTotal),
+        volume: volumeStats(direction.amounts.get(key) ?? [], decimals),
+      }
+    })
+
+// One row per wallet with its transfers in every direction, ranked by the total
+const rankCombined = (
+  byDirection: Record<Direction, DirectionCounts>,
+  eligible: Record<Direction, Record<string, number>>,
+  sybil: Map<string, WalletSybil>,
+  wallets: Map<string, CanonicalAddress>,
+  overallTotal: number,
+  decimals: number,
+): CombinedWalletEntry[] =>
+  [...wallets.values()]
+    .map((wallet) => {
+      const d2c = byDirection.d2c.counts[wallet.key] ?? 0
+      const c2d = byDirection.c2d.counts[wallet.key] ?? 0
+      const d2d = byDirection.d2d.counts[wallet.key] ?? 0
+      const total = d2c + c2d + d2d
+      const eligibleD2c = eligible.d2c[wallet.key] ?? 0
+      const eligibleC2d = eligible.c2d[wallet.key] ?? 0
+      const eligibleD2d = eligible.d2d[wallet.key] ?? 0
+      const amounts = Object.values(byDirection).flatMap((d) => d.amounts.get(wallet.key) ?? [])
+      const activity = Object.values(byDirection)
+        .map((d) => d.series.walletActivity(wallet.key))
+        .filter((a) => a != null)
+      return {
+        wallet: wallet.display,
+        address_type: wallet.type,
+        public_key: wallet.key,
+        d2c,
+        c2d,
+        d2d,
+        total,
+        eligible: {
+          d2c: eligibleD2c,
+          c2d: eligibleC2d,
+          d2d: eligibleD2d,
+          total: eligibleD2c + eligibleC2d + eligibleD2d,
+        },
+        sybil_score: sybil.get(wallet.key)?.score ?? 0,
+        sybil_flags: sybil.get(wallet.key)?.flags ?? [],
+        sybil_cluster: sybil.get(wallet.key)?.cluster ?? null,
+        percent: sharePercent(total, overallTotal),
+        volume: volumeStats(amounts, decimals),
+        first_active: activity.length
+          ? new Date(Math.min(...activity.map((a) => a.first))).toISOString()
+          : null,
+        last_active: activity.length
+          ? new Date(Math.max(...activity.map((a) => a.last))).toISOString()
+          : null,
+      }
+    })
+    .sort((a, b) =>
+      byEligibleThenRaw(
+        { key: a.public_key, eligible: a.eligible.total, count: a.total },
+        { key: b.public_key, eligible: b.eligible.total, count: b.total },
+      ),
+    )
+
+const directionSeries = (
+  byDirection: Record<Direction, DirectionCounts>,
+  granularity: Granularity,
+) => {
+  const d2c = byDirection.d2c.series.series(granularity)
+  const c2d = byDirection.c2d.series.series(granularity)
+  const d2d = byDirection.d2d.series.series(granularity)
+  return { d2c, c2d, d2d, overall: mergeSeries([d2c, c2d, d2d]) }
+}
+
+// Per-wallet series are kept out of counts_per_wallet.json: one NDJSON line per wallet
+const writeWalletTimeseries = (
+  filePath: string,
+  combined: CombinedWalletEntry[],
+  byDirection: Record<Direction, DirectionCounts>,
+): void => {
+  ensureDir(path.dirname(filePath))
+  const fd = fs.openSync(filePath, 'w')
+  try {
+    for (const entry of combined) {
+      const perDirection = (granularity: Granularity) => ({
+        d2c: byDirection.d2c.series.walletSeries(entry.public_key, granularity),
+        c2d: byDirection.c2d.series.walletSeries(entry.public_key, granularity),
+        d2d: byDirection.d2d.series.walletSeries(entry.public_key, granularity),
+      })
+      const line: WalletTimeseries = {
+        wallet: entry.wallet,
+        public_key: entry.public_key,
+        daily: perDirection('daily'),
+        hourly: perDirection('hourly'),
+      }
+      fs.writeSync(fd, JSON.stringify(line) + '\n')
+    }
+  } finally {
+    fs.closeSync(fd)
+  }
+}
+
+const writeExcludedTransfers = (filePath: string, excluded: ExcludedTransfer[]): void => {
+  ensureDir(path.dirname(filePath))
+  const fd = fs.openSync(filePath, 'w')
+  try {
+    for (const transfer of excluded) fs.writeSync(fd, JSON.stringify(transfer) + '\n')
+  } finally {
+    fs.closeSync(fd)
+  }
 }
 
 const writeJsonFile = (filePath: string, data: unknown): void => {
@@ -55,73 +271,226 @@ const writeJsonFile = (filePath: string, data: unknown): void => {
   fs.writeFileSync(filePath, JSON.stringify(data, null, 2) + '\n', 'utf8')
 }
 
-const main = async () => {
+const merkleLeafOf = (entry: CombinedWalletEntry): string =>
+  merkleLeaf({
+    public_key: entry.public_key,
+    d2c: entry.d2c,
+    c2d: entry.c2d,
+    d2d: entry.d2d,
+    total: entry.total,
+    eligible: entry.eligible,
+  })
+
+// One proof file per wallet; the directory is recreated so wallets from an earlier run go away
+const writeWalletProofs = (
+  dirPath: string,
+  combined: CombinedWalletEntry[],
+  tree: MerkleTree,
+): void => {
+  fs.rmSync(dirPath, { recursive: true, force: true })
+  ensureDir(dirPath)
+  for (const entry of combined) {
+    const leaf = merkleLeafOf(entry)
+    const proof: WalletProof = {
+      root: tree.root,
+      wallet: entry.wallet,
+      address_type: entry.address_type,
+      public_key: entry.public_key,
+      d2c: entry.d2c,
+      c2d: entry.c2d,
+      d2d: entry.d2d,
+      total: entry.total,
+      eligible: entry.eligible,
+      leaf,
+      proof: tree.proof(leaf),
+    }
+    fs.writeFileSync(
+      path.join(dirPath, `${entry.wallet}.json`),
+      JSON.stringify(proof, null, 2) + '\n',
+    )
+  }
+}
+
+export interface CountsRun {
+  countsFile: string
+  htmlFile: string | null
+  manifestFile: string | null
+  result: CountsResult
+}
+
+/**
+ * Aggregates the matched NDJSON files into `counts_per_wallet.json` (and optionally the HTML leaderboard)
+ */
+export const runCounts = async (opts: { html: boolean }): Promise<CountsRun> => {
   const outDirAbs = path.resolve(OUTPUT_DIR)
   const d2cPath = path.resolve(outDirAbs, 'd2c_transfers.ndjson')
   const c2dPath = path.resolve(outDirAbs, 'c2d_transfers.ndjson')
+  const d2dPath = path.resolve(outDirAbs, 'd2d_transfers.ndjson')
+  const walletTimeseriesPath = path.resolve(outDirAbs, 'wallet_timeseries.ndjson')
+  const excludedPath = path.resolve(outDirAbs, 'excluded_transfers.ndjson')
+  const proofsPath = path.resolve(outDirAbs, 'proofs')
 
-  const [{ counts: d2cCounts, total: d2cTotal }, { counts: c2dCounts, total: c2dTotal }] =
-    await Promise.all([readNdjsonCounts(d2cPath, 'd2c'), readNdjsonCounts(c2dPath, 'c2d')])
-
-  const overallTotal = d2cTotal + c2dTotal
-
-  // Convert counts to include percentages and sort by count descending
-  // Use 6 decimals to show meaningful percentages for even single transfers
-  // 1 transfer out of overall total (2,718,350) = 0.000037%
-  const d2cSorted = Object.entries(d2cCounts)
-    .sort(([, a], [, b]) => b - a)
-    .map(([wallet, count]) => ({
-      wallet,
-      count,
-      percent: ((count / overallTotal) * 100).toFixed(6) + '%',
-    }))
-
-  const c2dSorted = Object.entries(c2dCounts)
-    .sort(([, a], [, b]) => b - a)
-    .map(([wallet, count]) => ({
-      wallet,
-      count,
-      percent: ((count / overallTotal) * 100).toFixed(6) + '%',
-    }))
+  const ss58Prefix = ss58PrefixFromEnv()
+  const token = tokenFromEnv()
+  const rules = loadEligibilityRules()
+  const evaluator = createEligibilityEvaluator(rules.rules, ss58Prefix, token.decimals)
+  const wallets = new Map<string, CanonicalAddress>()
+  // One file at a time: the wallet map and the evaluator are shared, and interleaved reads
+  // would make their insertion order differ between runs
+  const d2c = await readNdjsonCounts(d2cPath, 'd2c', wallets, ss58Prefix, evaluator)
+  const c2d = await readNdjsonCounts(c2dPath, 'c2d', wallets, ss58Prefix, evaluator)
+  const d2d = await readNdjsonCounts(d2dPath, 'd2d', wallets, ss58Prefix, evaluator)
+  const { eligible, excluded } = evaluator.finish()
+  // Flags from the last `sybil` run, keyed like the wallets here (by public key)
+  const sybilReport = readSybilReport(outDirAbs)
+  const sybil = new Map((sybilReport?.wallets ?? []).map((w) => [w.public_key, w]))
+
+  const overallTotal = d2c.total + c2d.total + d2d.total
+  const allAmounts = (d: DirectionCounts) => [...d.amounts.values()].flat()
+  const [d2cAmounts, c2dAmounts, d2dAmounts] = [d2c, c2d, d2d].map(allAmounts)
+  const byDirection = { d2c, c2d, d2d }
+  const percentOfOverall = (n: number) => ((n / overallTotal) * 100).toFixed(3) + '%'
+
+  const combined = rankCombined(byDirection, eligible, sybil, wallets, overallTotal, token.decimals)
+  const tree = buildMerkleTree(combined.map(merkleLeafOf))
 
   const result: CountsResult = {
-    d2c: d2cSorted,
-    c2d: c2dSorted,
+    d2c: rankWallets(d2c, eligible.d2c, sybil, wallets, overallTotal, token.decimals),
+    c2d: rankWallets(c2d, eligible.c2d, sybil, wallets, overallTotal, token.decimals),
+    d2d: rankWallets(d2d, eligible.d2d, sybil, wallets, overallTotal, token.decimals),
+    combined,
+    ss58_prefix: ss58Prefix,
+    token,
+    volume: {
+      d2c: directionVolume(d2cAmounts, token.decimals),
+      c2d: directionVolume(c2dAmounts, token.decimals),
+      d2d: directionVolume(d2dAmounts, token.decimals),
+      overall: directionVolume([...d2cAmounts, ...c2dAmounts, ...d2dAmounts], token.decimals),
+    },
     totals: {
-      d2c: d2cTotal,
-      d2c_percent: ((d2cTotal / overallTotal) * 100).toFixed(3) + '%',
-      c2d: c2dTotal,
-      c2d_percent: ((c2dTotal / overallTotal) * 100).toFixed(3) + '%',
+      d2c: d2c.total,
+      d2c_percent: percentOfOverall(d2c.total),
+      c2d: c2d.total,
+      c2d_percent: percentOfOverall(c2d.total),
+      d2d: d2d.total,
+      d2d_percent: percentOfOverall(d2d.total),
       overall: overallTotal,
     },
+    routes: [...d2c.routes, ...c2d.routes, ...d2d.routes],
+    eligibility: eligibilitySummary(rules, eligible, excluded),
+    sybil: {
+      report_file: sybilReport ? sybilReportPath(outDirAbs) : null,
+      flagged_wallets: sybilReport?.wallets.length ?? 0,
+      clusters: sybilReport?.clusters.length ?? 0,
+    },
     block_ranges: {
       consensus_start: process.env.CONSENSUS_START_HEIGHT || 'N/A',
       consensus_end: process.env.CONSENSUS_END_HEIGHT || 'N/A',
       domain_start: process.env.DOMAIN_START_HEIGHT || 'N/A',
       domain_end: process.env.DOMAIN_END_HEIGHT || 'N/A',
     },
-    files: { d2c_transfers: d2cPath, c2d_transfers: c2dPath },
+    chain_windows: Object.fromEntries(
+      loadChainRegistry().map((c) => [
+        c.id,
+        {
+          start: Number.isNaN(c.start) ? 'N/A' : String(c.start),
+          end: Number.isNaN(c.end) ? 'N/A' : String(c.end),
+        },
+      ]),
+    ),
+    merkle: {
+      root: tree.root,
+      leaves: tree.leaves.length,
+      leaf_fields: [
+        'public_key',
+        'd2c',
+        'c2d',
+        'd2d',
+        'total',
+        'eligible.d2c',
+        'eligible.c2d',
+        'eligible.d2d',
+        'eligible.total',
+      ],
+    },
+    timeseries: {
+      daily: directionSeries(byDirection, 'daily'),
+      hourly: directionSeries(byDirection, 'hourly'),
+      untimed: {
+        d2c: d2c.series.untimed(),
+        c2d: c2d.series.untimed(),
+        d2d: d2d.series.untimed(),
+      },
+    },
+    files: {
+      d2c_transfers: d2cPath,
+      c2d_transfers: c2dPath,
+      d2d_transfers: d2dPath,
+      wallet_timeseries: walletTimeseriesPath,
+      excluded_transfers: excludedPath,
+      proofs: proofsPath,
+    },
     output_dir: outDirAbs,
     generated_at: new Date().toISOString(),
   }
 
   const countsFile = path.resolve(outDirAbs, 'counts_per_wallet.json')
   writeJsonFile(countsFile, result)
+  writeWalletTimeseries(walletTimeseriesPath, result.combined, byDirection)
+  writeExcludedTransfers(excludedPath, excluded)
+  writeWalletProofs(proofsPath, combined, tree)
+
+  let htmlFile: string | null = null
+  if (opts.html) {
+    htmlFile = path.resolve(outDirAbs, 'leaderboard.html')
+    generateHtmlLeaderboard(htmlFile, result)
+  }
+
+  const manifestFile = manifestEnabled()
+    ? await writeCountsManifest(outDirAbs, result, {
+        ss58_prefix: ss58Prefix,
+        token,
+        eligibility_rules: rules.rules,
+        sybil_report_sha256: sybilReport
+          ? (await sha256File(sybilReportPath(outDirAbs))).sha256
+          : null,
+      })
+    : null
+
+  return { countsFile, htmlFile, manifestFile, result }
+}
 
+const main = async () => {
   // Check if HTML output is requested via environment variable or command line
   const htmlOutput = process.env.HTML_OUTPUT === 'true' || process.argv.includes('--html')
+  const { countsFile, htmlFile, manifestFile, result } = await runCounts({ html: htmlOutput })
 
-  if (htmlOutput) {
-    const htmlFile = path.resolve(outDirAbs, 'leaderboard.html')
-    generateHtmlLeaderboard(htmlFile, result)
+  if (htmlFile) {
     console.log(
       JSON.stringify(
         {
           counts_file: countsFile,
           html_file: htmlFile,
+          manifest_file: manifestFile,
           totals: result.totals,
+          eligible_totals: result.eligibility.eligible,
+          sybil: result.sybil,
+          merkle_root: result.merkle.root,
+          volume_totals: {
+            token: result.token.symbol,
+            d2c: result.volume.d2c.formatted.total,
+            c2d: result.volume.c2d.formatted.total,
+            d2d: result.volume.d2d.formatted.total,
+            overall: result.volume.overall.formatted.total,
+          },
           block_ranges: result.block_ranges,
-          wallet_counts: { d2c: result.d2c.length, c2d: result.c2d.length },
+          routes: result.routes,
+          wallet_counts: {
+            d2c: result.d2c.length,
+            c2d: result.c2d.length,
+            d2d: result.d2d.length,
+            combined: result.combined.length,
+          },
           generated_at: result.generated_at,
         },
         null,
@@ -129,11 +498,15 @@ const main = async () => {
       ),
     )
   } else {
-    console.log(JSON.stringify({ counts_file: countsFile, ...result }, null, 2))
+    console.log(
+      JSON.stringify({ counts_file: countsFile, manifest_file: manifestFile, ...result }, null, 2),
+    )
   }
 }
 
-main().catch((err) => {
-  console.error(err)
-  process.exit(1)
-})
+if (require.main === module) {
+  main().catch((err) => {
+    console.error(err)
+    process.exit(1)
+  })
+}
@@ -0,0 +1,153 @@
+import 'dotenv/config'
+import type { ApiPromise } from '@polkadot/api'
+import { disconnectApi, getApi, getFinalizedHeadAndHeader } from './chain'
+import { rateLimitFromEnv } from './rate-limit'
+import type { ChainKey } from './chains'
+import { domainChainKey, getChainConfig, loadChainRegistry } from './chains'
+import type { DerivedDomainWindow, RunConfig } from './run-config'
+import { lateDeliveryFromEnv, runConfigPath, writeRunConfig } from './run-config'
+
+// Resolves each domain's trial window from the consensus window and writes the run config.
+// Domains: `--domain=<N>[,<M>…]`, else every domain in the registry, else domain 0
+const domainArg = process.argv.find((a) => a.startsWith('--domain='))
+
+interface DomainsQuery {
+  headDomainNumber?: (domainId: number) => Promise<{ toString: () => string }>
+  latestConfirmedDomainExecutionReceipt?: (domainId: number) => Promise<{
+    isSome: boolean
+    unwrap: () => { domainBlockNumber: { toString: () => string } }
+  }>
+}
+
+type DomainHeightSource = DerivedDomainWindow['derived_from']['source']
+
+const domainIdsToDerive = (): number[] => {
+  if (domainArg) return domainArg.split('=')[1].split(',').map(Number)
+  const ids = loadChainRegistry()
+    .map((c) => c.domainId)
+    .filter((id): id is number => id != null)
+  return ids.length > 0 ? ids : [0]
+}
+
+const requireHeight = (name: string): number => {
+  const height = Number(process.env[name])
+  if (!process.env[name] || !Number.isInteger(height) || height < 0) {
+    throw new Error(`${name} is required and must be a block height (got ${process.env[name]})`)
+  }
+  return height
+}
+
+/**
+ * Domain block the consensus chain had reached at `consensusHash`: the head domain number,
+ * or the latest confirmed execution receipt on runtimes without it
+ */
+export const domainHeightAt = async (
+  api: ApiPromise,
+  consensusHash: string,
+  domainId: number,
+): Promise<{ height: number; source: DomainHeightSource }> => {
+  const domains = (await api.at(consensusHash)).query.domains as unknown as DomainsQuery
+  if (domains?.headDomainNumber) {
+    const head = await domains.headDomainNumber(domainId)
+    return { height: Number(head.toString()), source: 'head_domain_number' }
+  }
+  if (domains?.latestConfirmedDomainExecutionReceipt) {
+    const receipt = await domains.latestConfirmedDomainExecutionReceipt(domainId)
+    if (receipt.isSome) {
+      return {
+        height: Number(receipt.unwrap().domainBlockNumber.toString()),
+        source: 'latest_confirmed_receipt',
+      }
+    }
+  }
+  throw new Error(`no domain ${domainId} block info in consensus storage at ${consensusHash}`)
+}
+
+/**
+ * Rejects a derived window the domain itself cannot back: start after end, or an end height
+ * above the domain's finalized head (read over the domain's own RPC when one is configured)
+ */
+const checkDomainWindow = async (
+  domainId: number,
+  window: { start: number; end: number },
+): Promise<void> => {
+  const chain = domainChainKey(domainId)
+  if (window.end < window.start) {
+    throw new Error(
+      `${chain}: derived end height ${window.end} is below the derived start ${window.start}`,
+    )
+  }
+  const { rpcEndpoints } = getChainConfig(chain)
+  if (rpcEndpoints.length === 0) {
+    console.warn(`${chain}: no RPC URL configured; derived heights not checked against its head`)
+    return
+  }
+  try {
+    const api = await getApi(chain, rpcEndpoints, undefined, rateLimitFromEnv())
+    const { header } = await getFinalizedHeadAndHeader(api)
+    const finalized = header.number.toNumber()
+    if (window.end > finalized) {
+      throw new Error(
+        `${chain}: derived end height ${window.end} is above the domain's finalized height ${finalized}; is DOMAIN_${domainId}_RPC_URL the right network, or is the domain lagging?`,
+      )
+    }
+  } finally {
+    await disconnectApi(chain)
+  }
+}
+
+/**
+ * Derives the domain windows and writes them to the run config (`RUN_CONFIG_PATH`)
+ */
+export const runDeriveWindow = async (): Promise<RunConfig & { run_config: string }> => {
+  const start = requireHeight('CONSENSUS_START_HEIGHT')
+  const end = requireHeight('CONSENSUS_END_HEIGHT')
+  if (end < start) throw new Error(`CONSENSUS_END_HEIGHT ${end} is below the start ${start}`)
+  const [consensus] = loadChainRegistry()
+  if (consensus.rpcEndpoints.length === 0) throw new Error('CONSENSUS_RPC_URL is required')
+
+  const api = await getApi(consensus.id, consensus.rpcEndpoints, undefined, rateLimitFromEnv())
+  const domains = {} as Record<ChainKey, DerivedDomainWindow>
+  try {
+    const startHash = (await api.rpc.chain.getBlockHash(start)).toHex()
+    const endHash = (await api.rpc.chain.getBlockHash(end)).toHex()
+    for (const domainId of domainIdsToDerive()) {
+      const from = await domainHeightAt(api, startHash, domainId)
+      const to = await domainHeightAt(api, endHash, domainId)
+      await checkDomainWindow(domainId, { start: from.height, end: to.height })
+      domains[domainChainKey(domainId)] = {
+        start: from.height,
+        end: to.height,
+        derived_from: {
+          consensus_start_hash: startHash,
+          consensus_end_hash: endHash,
+          source: to.source,
+        },
+      }
+    }
+  } finally {
+    await disconnectApi(consensus.id)
+  }
+
+  const file = runConfigPath()
+  const config: RunConfig = {
+    consensus: { start, end },
+    domains,
+    late_delivery: lateDeliveryFromEnv(),
+    generated_at: new Date().toISOString(),
+  }
+  writeRunConfig(file, config)
+  return { ...config, run_config: file }
+}
+
+const main = async () => {
+  const config = await runDeriveWindow()
+  console.log(JSON.stringify(config, null, 2))
+}
+
+if (require.main === module) {
+  main().catch((err) => {
+    console.error(err)
+    process.exit(1)
+  })
+}
@@ -0,0 +1,180 @@
+/**
+ * Eligibility rules applied by `counts`
+ *
+ * Rules are read from a JSON file (`ELIGIBILITY_RULES`, see `EligibilityRules`). Amount and
+ * address rules are checked per transfer as it is read; the daily cap and the minimum
+ * interval depend on a wallet's earlier counted transfers, so they are applied at the end,
+ * per wallet in block-time order across all directions.
+ */
+
+import * as fs from 'node:fs'
+import * as path from 'node:path'
+import type { Direction } from './chains'
+import type {
+  EligibilityRules,
+  EligibilitySummary,
+  ExcludedTransfer,
+  ExclusionReason,
+  TransferRow,
+} from './types'
+import { canonicalAddress } from './address'
+import { bucketOf } from './timeseries'
+import { parseUnits } from './volume'
+
+export interface LoadedRules {
+  file: string | null
+  rules: EligibilityRules
+}
+
+const nonNegativeInteger = (name: string, value: unknown): void => {
+  if (value !== undefined && (!Number.isInteger(value) || (value as number) < 0)) {
+    throw new Error(`eligibility rule ${name} must be a non-negative integer (got ${value})`)
+  }
+}
+
+/**
+ * Reads the rules file named by `ELIGIBILITY_RULES`; no file means no rules
+ */
+export const loadEligibilityRules = (env: typeof process.env = process.env): LoadedRules => {
+  if (!env.ELIGIBILITY_RULES) return { file: null, rules: {} }
+  const file = path.resolve(env.ELIGIBILITY_RULES)
+  const rules = JSON.parse(fs.readFileSync(file, 'utf8')) as EligibilityRules
+  nonNegativeInteger('daily_cap', rules.daily_cap)
+  nonNegativeInteger('min_interval_seconds', rules.min_interval_seconds)
+  if (rules.exclude_addresses !== undefined && !Array.isArray(rules.exclude_addresses)) {
+    throw new Error('eligibility rule exclude_addresses must be an array of addresses')
+  }
+  return { file, rules }
+}
+
+type TransferRef = Omit<ExcludedTransfer, 'reason'>
+
+interface PendingTransfer {
+  walletKey: string
+  timestampMs: number
+  transfer: TransferRef
+}
+
+export interface EligibilityEvaluator {
+  /** Evaluates one matched transfer of a wallet (canonical key) */
+  add: (walletKey: string, row: Partial<TransferRow>, amount: bigint | null) => void
+  /** Applies the time-based rules and returns eligible counts per direction and wallet */
+  finish: () => {
+    eligible: Record<Direction, Record<string, number>>
+    excluded: ExcludedTransfer[]
+  }
+}
+
+export const createEligibilityEvaluator = (
+  rules: EligibilityRules,
+  ss58Prefix: number,
+  decimals: number,
+): EligibilityEvaluator => {
+  const minAmount = rules.min_amount != null ? parseUnits(rules.min_amount, decimals) : null
+  const excludedKeys = new Set(
+    (rules.exclude_addresses ?? []).map((a) => canonicalAddress(a, ss58Prefix).key),
+  )
+  const timeRules = rules.daily_cap != null || rules.min_interval_seconds != null
+  const minIntervalMs = (rules.min_interval_seconds ?? 0) * 1000
+  const eligible: Record<Direction, Record<string, number>> = { d2c: {}, c2d: {}, d2d: {} }
+  const excluded: ExcludedTransfer[] = []
+  const pending: PendingTransfer[] = []
+
+  const count = (direction: Direction, walletKey: string) => {
+    eligible[direction][walletKey] = (eligible[direction][walletKey] ?? 0) + 1
+  }
+
+  const check = (walletKey: string, amount: bigint | null): ExclusionReason | null => {
+    if (excludedKeys.has(walletKey)) return 'excluded_address'
+    if (minAmount != null && (amount == null || amount < minAmount)) return 'below_min_amount'
+    return null
+  }
+
+  const add = (walletKey: string, row: Partial<TransferRow>, amount: bigint | null) => {
+    const direction = row.direction as Direction
+    const timestampMs = row.source_timestamp ?? row.dest_timestamp ?? null
+    const transfer: TransferRef = {
+      direction,
+      source_chain: String(row.source_chain || ''),
+      destination_chain: String(row.destination_chain || ''),
+      channel_id: row.channel_id ?? null,
+      nonce: row.nonce ?? null,
+      from: String(row.from || ''),
+      amount: amount?.toString() ?? null,
+      source_timestamp: timestampMs,
+    }
+
+    const reason = check(walletKey, amount)
+    if (reason) {
+      excluded.push({ ...transfer, reason })
+    } else if (!timeRules) {
+      count(direction, walletKey)
+    } else if (timestampMs == null) {
+      // Caps and intervals cannot be applied without a block time
+      excluded.push({ ...transfer, reason: 'missing_timestamp' })
+    } else {
+      pending.push({ walletKey, timestampMs, transfer })
+    }
+  }
+
+  const finish = () => {
+    const order = (a: string, b: string) => (a < b ? -1 : a > b ? 1 : 0)
+    // Stable sort: transfers of one direction with equal times keep their file order
+    pending.sort(
+      (a, b) =>
+        order(a.walletKey, b.walletKey) ||
+        a.timestampMs - b.timestampMs ||
+        order(a.transfer.direction, b.transfer.direction),
+    )
+    let wallet: string | null = null
+    let lastCounted: number | null = null
+    let perDay = new Map<string, number>()
+    for (const p of pending) {
+      if (p.walletKey !== wallet) {
+        wallet = p.walletKey
+        lastCounted = null
+        perDay = new Map()
+      }
+      const day = bucketOf(p.timestampMs, 'daily')
+      if (rules.daily_cap != null && (perDay.get(day) ?? 0) >= rules.daily_cap) {
+        excluded.push({ ...p.transfer, reason: 'daily_cap' })
+      } else if (lastCounted != null && p.timestampMs - lastCounted < minIntervalMs) {
+        excluded.push({ ...p.transfer, reason: 'min_interval' })
+      } else {
+        count(p.transfer.direction, p.walletKey)
+        perDay.set(day, (perDay.get(day) ?? 0) + 1)
+        lastCounted = p.timestampMs
+      }
+    }
+    pending.length = 0
+    return { eligible, excluded }
+  }
+
+  return { add, finish }
+}
+
+/**
+ * Totals for `counts_per_wallet.json`
+ */
+export const eligibilitySummary = (
+  loaded: LoadedRules,
+  eligible: Record<Direction, Record<string, number>>,
+  excluded: ExcludedTransfer[],
+): EligibilitySummary => {
+  const sum = (counts: Record<string, number>) => Object.values(counts).reduce((s, n) => s + n, 0)
+  const byReason: Record<ExclusionReason, number> = {
+    excluded_address: 0,
+    below_min_amount: 0,
+    missing_timestamp: 0,
+    daily_cap: 0,
+    min_interval: 0,
+  }
+  for (const e of excluded) byReason[e.reason] += 1
+  const [d2c, c2d, d2d] = [eligible.d2c, eligible.c2d, eligible.d2d].map(sum)
+  return {
+    rules_file: loaded.file,
+    rules: loaded.rules,
+    eligible: { d2c, c2d, d2d, overall: d2c + c2d + d2d },
+    excluded: byReason,
+  }
+}
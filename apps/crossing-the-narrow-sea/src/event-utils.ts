@@ -1,11 +1,10 @@
-import {
-  upsertSourceInit,
-  upsertDestinationSuccess,
-  upsertSourceAck,
-  insertEventFailure,
-} from './sqlite'
-
-export type ChainLabel = 'consensus' | 'domain'
+import { encodeAddress } from '@polkadot/util-crypto'
+import type { CaptureStore } from './sqlite'
+import type { ChainKey } from './chains'
+import { xdmChainKey } from './chains'
+import type { TransferCallAttribution } from './call-tree'
+import { callArg, collectTransferCalls } from './call-tree'
+import { addressTypeOf, ethereumExecutedSenders, ethereumSenderOf } from './evm'
 
 export const asNumber = (v: any): number => {
   if (v?.toNumber) return v.toNumber()
@@ -37,16 +36,94 @@ export const extractAmountFromCall = (extrinsic: any): string | null => {
   }
 }
 
+/**
+ * Formats a transporter `MultiAccountId`: AccountId32 as SS58 (chain prefix), AccountId20 / Raw as hex
+ */
+export const formatMultiAccountId = (account: any, ss58Format?: number): string => {
+  const type = String(account?.type ?? '')
+  const inner = account?.value ?? account
+  if (type === 'AccountId32') return encodeAddress(inner.toU8a(), ss58Format)
+  return inner?.toHex ? String(inner.toHex()) : asString(inner)
+}
+
+/**
+ * Receiver of a `transporter.transfer` call, decoded from its `dst_location` argument
+ */
+export const recipientFromTransferCall = (call: any, ss58Format?: number): string | null => {
+  try {
+    if (call?.section !== 'transporter') return null
+    const location = callArg(call, 'dst_location')
+    const account = location?.accountId ?? location?.get?.('accountId')
+    return account != null ? formatMultiAccountId(account, ss58Format) : null
+  } catch {
+    return null
+  }
+}
+
+// ethereum.transact carries the receiver inside the precompile's ABI-encoded input, which is not
+// decoded here, so EVM wallet transfers have no recipient
+export const extractRecipientFromCall = (extrinsic: any): string | null =>
+  recipientFromTransferCall(extrinsic?.method, extrinsic?.registry?.chainSS58)
+
+/**
+ * Block time from the `timestamp.set` inherent (Unix milliseconds), or null if absent
+ */
+export const extractBlockTimestamp = (extrinsics: any[]): number | null => {
+  for (const extrinsic of extrinsics ?? []) {
+    const method = (extrinsic as any)?.method
+    if (method?.section === 'timestamp' && method?.method === 'set') {
+      return asNumber(method.args?.[0])
+    }
+  }
+  return null
+}
+
+// Events processXdmEvents turns into one row each (or an event failure)
+const XDM_EVENTS = new Set([
+  'transporter.OutgoingTransferInitiated',
+  'transporter.IncomingTransferSuccessful',
+  'messenger.OutboxMessageResult',
+  'messenger.OutboxMessage',
+  'messenger.InboxMessageResponse',
+  'messenger.OutboxMessageResponse',
+])
+
+export const countXdmEvents = (events: any[]): number =>
+  events.filter((r) => XDM_EVENTS.has(`${r?.event?.section}.${r?.event?.method}`)).length
+
 export const processXdmEvents = (params: {
-  db: any
-  chain: ChainLabel
+  store: CaptureStore
+  chain: ChainKey
   events: any[]
   extrinsics: any[]
   blockHeight: number
   blockHash: string
   logPrefix: string
 }): void => {
-  const { db, chain, events, extrinsics, blockHeight, blockHash, logPrefix } = params
+  const { store, chain, events, extrinsics, blockHeight, blockHash, logPrefix } = params
+
+  // H160 senders of ethereum.transact extrinsics, as reported by ethereum.Executed
+  const executedSenders = ethereumExecutedSenders(events)
+
+  // Transfer calls per extrinsic (from the call tree), consumed as OutgoingTransferInitiated events arrive
+  const pendingTransfers = new Map<number, TransferCallAttribution[]>()
+  const nextTransferAttribution = (
+    extrinsicIndex: number,
+    extrinsic: any,
+    signer: string,
+    amount: string,
+  ): TransferCallAttribution | undefined => {
+    if (!pendingTransfers.has(extrinsicIndex)) {
+      pendingTransfers.set(
+        extrinsicIndex,
+        collectTransferCalls(extrinsic?.method, signer, extrinsic?.registry?.chainSS58),
+      )
+    }
+    const pending = pendingTransfers.get(extrinsicIndex) as TransferCallAttribution[]
+    // utility.forceBatch skips failed items without an event, so prefer the next call with this amount
+    const idx = pending.findIndex((p) => asString(callArg(p.call, 'amount')) === amount)
+    return pending.splice(idx >= 0 ? idx : 0, 1)[0]
+  }
 
   for (const [, record] of events.entries()) {
     try {
@@ -70,7 +147,7 @@ export const processXdmEvents = (params: {
           extrinsicIndex != null &&
           (extrinsicIndex < 0 || extrinsicIndex >= (extrinsics?.length ?? 0))
         ) {
-          insertEventFailure(db, {
+          store.insertEventFailure({
             chain,
             block_height: blockHeight,
             block_hash: blockHash,
@@ -91,13 +168,17 @@ export const processXdmEvents = (params: {
             typeof anyExt?.isSigned === 'function' ? anyExt.isSigned() : !!anyExt?.isSigned
           if (signedFlag) {
             signer = anyExt?.signer?.toString?.() || ''
+          } else {
+            // EVM domains: unsigned ethereum.transact carrying a signed Ethereum transaction
+            const evmSender = ethereumSenderOf(anyExt, extrinsicIndex as number, executedSenders)
+            if (evmSender) signer = evmSender
           }
         } catch (_e) {
           void _e
         }
 
         if (!signer) {
-          insertEventFailure(db, {
+          store.insertEventFailure({
             chain,
             block_height: blockHeight,
             block_hash: blockHash,
@@ -111,12 +192,27 @@ export const processXdmEvents = (params: {
           )
           continue
         }
-        upsertSourceInit(db, {
+        // Credit the effective origin of the inner transfer call (proxy real account, multisig, ...)
+        const attribution = nextTransferAttribution(
+          extrinsicIndex as number,
+          extrinsic,
+          signer,
+          amount,
+        )
+        // EVM domains sign with 20-byte accounts, so the type follows the credited address
+        const fromAddress = attribution?.origin ?? signer
+        store.upsertSourceInit({
           source_chain: chain,
           dst_chain_id: asNumber(dstChainId),
+          dst_chain: xdmChainKey(dstChainId),
           channel_id: asNumber(channelId),
           nonce: asString(nonce),
-          from_address: signer,
+          from_address: fromAddress,
+          from_address_type: addressTypeOf(fromAddress),
+          to_address: attribution
+            ? recipientFromTransferCall(attribution.call, (extrinsic as any)?.registry?.chainSS58)
+            : extractRecipientFromCall(extrinsic),
+          attribution_path: attribution?.path ?? null,
           amount,
           source_block_height: blockHeight,
           source_block_hash: blockHash,
@@ -130,9 +226,10 @@ export const processXdmEvents = (params: {
         const amount = amountField != null ? asString(amountField) : '0'
         const [channelId, nonce] = messageId as any
 
-        upsertDestinationSuccess(db, {
+        store.upsertDestinationSuccess({
           destination_chain: chain,
           src_chain_id: asNumber(srcChainId),
+          src_chain: xdmChainKey(srcChainId),
           channel_id: asNumber(channelId),
           nonce: asString(nonce),
           amount,
@@ -145,9 +242,10 @@ export const processXdmEvents = (params: {
         const [dstChainId, channelId, nonce, result] = event.data as any
         const isOk = (result?.isOk ?? String(result) === 'Ok') ? 'Ok' : 'Err'
 
-        upsertSourceAck(db, {
+        store.upsertSourceAck({
           source_chain: chain,
           dst_chain_id: asNumber(dstChainId),
+          dst_chain: xdmChainKey(dstChainId),
           channel_id: asNumber(channelId),
           nonce: asString(nonce),
           result: isOk as 'Ok' | 'Err',
@@ -155,6 +253,48 @@ export const processXdmEvents = (params: {
           source_block_hash: blockHash,
         } as any)
       }
+
+      if (section === 'messenger' && method === 'OutboxMessage') {
+        const [dstChainId, channelId, nonce] = event.data as any
+
+        store.upsertSourceOutboxMessage({
+          source_chain: chain,
+          dst_chain_id: asNumber(dstChainId),
+          dst_chain: xdmChainKey(dstChainId),
+          channel_id: asNumber(channelId),
+          nonce: asString(nonce),
+          source_block_height: blockHeight,
+          source_block_hash: blockHash,
+        } as any)
+      }
+
+      if (section === 'messenger' && method === 'InboxMessageResponse') {
+        const [srcChainId, channelId, nonce] = event.data as any
+
+        store.upsertDestinationInboxResponse({
+          destination_chain: chain,
+          src_chain_id: asNumber(srcChainId),
+          src_chain: xdmChainKey(srcChainId),
+          channel_id: asNumber(channelId),
+          nonce: asString(nonce),
+          destination_block_height: blockHeight,
+          destination_block_hash: blockHash,
+        } as any)
+      }
+
+      if (section === 'messenger' && method === 'OutboxMessageResponse') {
+        const [dstChainId, channelId, nonce] = event.data as any
+
+        store.upsertSourceOutboxResponse({
+          source_chain: chain,
+          dst_chain_id: asNumber(dstChainId),
+          dst_chain: xdmChainKey(dstChainId),
+          channel_id: asNumber(channelId),
+          nonce: asString(nonce),
+          source_block_height: blockHeight,
+          source_block_hash: blockHash,
+        } as any)
+      }
     } catch (err) {
       const rec = record as any
       const evt = rec?.event
@@ -164,7 +304,7 @@ export const processXdmEvents = (params: {
       const extrinsicIndex = phase?.isApplyExtrinsic
         ? (phase.asApplyExtrinsic.toNumber?.() ?? Number(phase.asApplyExtrinsic))
         : null
-      insertEventFailure(db, {
+      store.insertEventFailure({
         chain,
         block_height: blockHeight,
         block_hash: blockHash,
@@ -0,0 +1,71 @@
+import { before, test } from 'node:test'
+import assert from 'node:assert/strict'
+import { hexToU8a } from '@polkadot/util'
+import { cryptoWaitReady } from '@polkadot/util-crypto'
+import { addressTypeOf, ethereumSenderOf, recoverEthereumSender } from './evm'
+
+// Codec stand-ins: what the RLP encoder reads from polkadot-js types
+const bytes = (hex: string) => ({ toU8a: () => hexToU8a(hex) })
+const h256 = (value: bigint) => bytes(`0x${value.toString(16).padStart(64, '0')}`)
+
+// The signed transaction from the EIP-155 specification (chain id 1, key 0x4646…46)
+const EIP155_EXAMPLE = {
+  nonce: 9,
+  gasPrice: 20_000_000_000n,
+  gasLimit: 21000,
+  to: '0x3535353535353535353535353535353535353535',
+  value: 10n ** 18n,
+  v: 37,
+  r: 18515461264373351373200002665853028612451056578545711640558177340181847433846n,
+  s: 46948507304638947509940763649030358759909902576025900602547168820602576006531n,
+  sender: '0x9d8A62f656a8d1615C1294fd71e9CFb3E4855A4F',
+}
+
+const legacyTransaction = (overrides: Partial<typeof EIP155_EXAMPLE> = {}) => {
+  const tx = { ...EIP155_EXAMPLE, ...overrides }
+  return {
+    isLegacy: true,
+    asLegacy: {
+      nonce: tx.nonce,
+      gasPrice: tx.gasPrice,
+      gasLimit: tx.gasLimit,
+      action: { isCall: true, asCall: bytes(tx.to) },
+      value: tx.value,
+      input: bytes('0x'),
+      signature: { v: tx.v, r: h256(tx.r), s: h256(tx.s) },
+    },
+  }
+}
+
+before(async () => {
+  await cryptoWaitReady()
+})
+
+test('recovers the sender of the EIP-155 example transaction', () => {
+  assert.equal(recoverEthereumSender(legacyTransaction()), EIP155_EXAMPLE.sender)
+})
+
+test('a changed field no longer recovers the signer', () => {
+  const sender = recoverEthereumSender(legacyTransaction({ value: 10n ** 18n + 1n }))
+  assert.notEqual(sender, EIP155_EXAMPLE.sender)
+})
+
+test('unknown transaction types recover nothing', () => {
+  assert.equal(recoverEthereumSender({ isLegacy: false }), null)
+  assert.equal(recoverEthereumSender(null), null)
+})
+
+test('ethereum.Executed wins over signature recovery', () => {
+  const extrinsic = {
+    method: { section: 'ethereum', method: 'transact', args: [legacyTransaction()] },
+  }
+  const reported = '0x0000000000000000000000000000000000000001'
+  assert.equal(ethereumSenderOf(extrinsic, 2, new Map([[2, reported]])), reported)
+  assert.equal(ethereumSenderOf(extrinsic, 2, new Map()), EIP155_EXAMPLE.sender)
+  assert.equal(ethereumSenderOf({ method: { section: 'balances' } }, 2, new Map()), null)
+})
+
+test('address types', () => {
+  assert.equal(addressTypeOf(EIP155_EXAMPLE.sender), 'h160')
+  assert.equal(addressTypeOf('5GrwvaEF5zXb26Fz9rcQpDWS57CtERHpNehXCPcNoHGKutQY'), 'ss58')
+})
@@ -0,0 +1,163 @@
+/**
+ * Ethereum-origin transfers on EVM domains (auto-evm)
+ *
+ * Transfers sent from EVM wallets arrive as unsigned `ethereum.transact` extrinsics
+ * (a plain call to the transporter precompile included). The sender is the H160
+ * recovered from the Ethereum transaction signature; the runtime also reports it in
+ * the `ethereum.Executed` event of the same extrinsic, which is preferred when present.
+ */
+
+import { u8aConcat } from '@polkadot/util'
+import { cryptoIsReady, ethereumEncode, keccakAsU8a, secp256k1Recover } from '@polkadot/util-crypto'
+
+export type AddressType = 'ss58' | 'h160'
+
+export const addressTypeOf = (address: string): AddressType =>
+  /^0x[0-9a-fA-F]{40}$/.test(address) ? 'h160' : 'ss58'
+
+// Minimal RLP encoder (byte strings and lists), enough to rebuild signing payloads
+type RlpItem = Uint8Array | RlpItem[]
+
+const rlpLength = (length: number, offset: number): Uint8Array => {
+  if (length < 56) return Uint8Array.of(offset + length)
+  const bytes: number[] = []
+  for (let n = length; n > 0; n = Math.floor(n / 256)) bytes.unshift(n % 256)
+  return Uint8Array.of(offset + 55 + bytes.length, ...bytes)
+}
+
+const rlpEncode = (item: RlpItem): Uint8Array => {
+  if (Array.isArray(item)) {
+    const payload = u8aConcat(...item.map(rlpEncode))
+    return u8aConcat(rlpLength(payload.length, 0xc0), payload)
+  }
+  if (item.length === 1 && item[0] < 0x80) return item
+  return u8aConcat(rlpLength(item.length, 0x80), item)
+}
+
+// Integers are encoded big-endian without leading zeros (zero is the empty string)
+const rlpUint = (value: any): Uint8Array => {
+  let hex = BigInt(value?.toString?.() ?? value ?? 0).toString(16)
+  if (hex === '0') return new Uint8Array()
+  if (hex.length % 2) hex = `0${hex}`
+  return Uint8Array.from(hex.match(/../g) as string[], (b) => parseInt(b, 16))
+}
+
+const rlpBytes = (value: any): Uint8Array => value.toU8a(true)
+
+const rlpAction = (action: any): Uint8Array =>
+  action?.isCall ? rlpBytes(action.asCall) : new Uint8Array()
+
+const rlpAccessList = (accessList: any): RlpItem[] =>
+  Array.from(accessList ?? []).map((entry: any) => [
+    rlpBytes(entry.address),
+    Array.from(entry.storageKeys ?? []).map(rlpBytes),
+  ])
+
+interface SigningPayload {
+  hash: Uint8Array
+  r: any
+  s: any
+  recovery: number
+}
+
+const signingPayload = (transaction: any): SigningPayload | null => {
+  if (transaction?.isLegacy) {
+    const tx = transaction.asLegacy
+    const v = BigInt(tx.signature.v.toString())
+    const fields: RlpItem[] = [
+      rlpUint(tx.nonce),
+      rlpUint(tx.gasPrice),
+      rlpUint(tx.gasLimit),
+      rlpAction(tx.action),
+      rlpUint(tx.value),
+      rlpBytes(tx.input),
+    ]
+    // EIP-155: v = chain_id * 2 + 35 + recovery; pre-EIP-155: v = 27 + recovery
+    const eip155 = v >= 35n
+    if (eip155) fields.push(rlpUint((v - 35n) / 2n), new Uint8Array(), new Uint8Array())
+    return {
+      hash: keccakAsU8a(rlpEncode(fields)),
+      r: tx.signature.r,
+      s: tx.signature.s,
+      recovery: Number(eip155 ? (v - 35n) % 2n : v - 27n),
+    }
+  }
+
+  const typed = transaction?.isEip2930
+    ? { type: 0x01, tx: transaction.asEip2930 }
+    : transaction?.isEip1559
+      ? { type: 0x02, tx: transaction.asEip1559 }
+      : null
+  if (!typed) return null
+
+  const { type, tx } = typed
+  const fees: RlpItem[] =
+    type === 0x01
+      ? [rlpUint(tx.gasPrice)]
+      : [rlpUint(tx.maxPriorityFeePerGas), rlpUint(tx.maxFeePerGas)]
+  const fields: RlpItem[] = [
+    rlpUint(tx.chainId),
+    rlpUint(tx.nonce),
+    ...fees,
+    rlpUint(tx.gasLimit),
+    rlpAction(tx.action),
+    rlpUint(tx.value),
+    rlpBytes(tx.input),
+    rlpAccessList(tx.accessList),
+  ]
+  return {
+    hash: keccakAsU8a(u8aConcat(Uint8Array.of(type), rlpEncode(fields))),
+    r: tx.r,
+    s: tx.s,
+    recovery: tx.oddYParity.isTrue ? 1 : 0,
+  }
+}
+
+/**
+ * Recovers the H160 sender of an `ethereum.transact` transaction (checksummed), or null
+ *
+ * Needs the WASM crypto backend (initialised by ApiPromise on connect): the pure-JS
+ * secp256k1 key expansion in util-crypto derives wrong addresses.
+ */
+export const recoverEthereumSender = (transaction: any): string | null => {
+  if (!cryptoIsReady()) return null
+  try {
+    const payload = signingPayload(transaction)
+    if (!payload) return null
+    const signature = u8aConcat(rlpBytes(payload.r), rlpBytes(payload.s))
+    const publicKey = secp256k1Recover(payload.hash, signature, payload.recovery)
+    return ethereumEncode(publicKey)
+  } catch {
+    return null
+  }
+}
+
+/**
+ * H160 senders reported by `ethereum.Executed`, keyed by extrinsic index
+ */
+export const ethereumExecutedSenders = (events: any[]): Map<number, string> => {
+  const senders = new Map<number, string>()
+  for (const { event, phase } of events as any[]) {
+    if (event?.section !== 'ethereum' || event?.method !== 'Executed') continue
+    if (!phase?.isApplyExtrinsic) continue
+    const from = (event.data as any)?.from ?? (event.data as any[])[0]
+    if (from != null) senders.set(phase.asApplyExtrinsic.toNumber(), ethereumEncode(from.toU8a()))
+  }
+  return senders
+}
+
+/**
+ * H160 sender of an unsigned `ethereum.transact` extrinsic, or null for any other extrinsic
+ */
+export const ethereumSenderOf = (
+  extrinsic: any,
+  extrinsicIndex: number,
+  executedSenders: Map<number, string>,
+): string | null => {
+  const method = extrinsic?.method
+  if (method?.section !== 'ethereum' || method?.method !== 'transact') return null
+  return (
+    executedSenders.get(extrinsicIndex) ??
+    recoverEthereumSender(method.args?.[0] ?? method.get?.('transaction'))
+  )
+}
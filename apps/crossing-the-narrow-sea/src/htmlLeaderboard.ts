@@ -5,12 +5,32 @@
  * - Dark mode support with system preference detection
  * - Real-time wallet address search and filtering
  * - Sortable leaderboards for D2C and C2D transfers
+ * - Combined per-wallet ranking across directions
+ * - Transfer volume per wallet and direction, with a size distribution
+ * - Daily timeline chart of transfers per direction
+ * - SS58 (Substrate) and H160 (EVM) wallets ranked together, tagged by address type
+ * - Eligible transfer counts when eligibility rules are in effect
+ * - Sybil / farming badges from the `sybil` report
+ * - Footer with the signer and signed digest once `sign` has run
  * - Visual highlighting for top performers
  */
 
 import * as fs from 'node:fs'
 import * as path from 'node:path'
-import type { CountsResult } from './types'
+import type {
+  CombinedWalletEntry,
+  CountsResult,
+  DirectionVolume,
+  ResultSignature,
+  SybilSignal,
+  TimeBucket,
+  WalletEntry,
+} from './types'
+import type { AddressType } from './evm'
+import { formatUnits } from './volume'
+
+// Fixed rather than the machine's locale, so `verify-signature` can re-render the page byte for byte
+const LOCALE = 'en-US'
 
 /**
  * Ensures a directory exists, creating it recursively if necessary
@@ -22,15 +42,315 @@ const ensureDir = (dirPath: string): void => {
 }
 
 /**
- * Generates an HTML leaderboard file from transfer count results
+ * Renders the SS58 / EVM badge of a wallet
+ */
+const renderAddressType = (type: AddressType): string =>
+  `<span class="address-type ${type}">${type === 'h160' ? 'EVM' : 'SS58'}</span>`
+
+const SYBIL_LABELS: Record<SybilSignal, string> = {
+  round_trip: 'Round trip',
+  dust: 'Dust',
+  regular_interval: 'Regular interval',
+  fan_in: 'Fan-in',
+}
+
+/**
+ * Renders a wallet's sybil flags as badges (empty when it has none)
+ */
+const renderSybilFlags = (
+  entry: { sybil_score: number; sybil_flags: SybilSignal[] },
+  cluster?: string | null,
+): string =>
+  entry.sybil_flags
+    .map(
+      (flag) =>
+        `<span class="sybil-flag" title="Sybil score ${entry.sybil_score}${cluster ? ` · ${cluster}` : ''}">${SYBIL_LABELS[flag]}</span>`,
+    )
+    .join('')
+
+/**
+ * Renders the footer naming who signed which digest (see `sign` / `verify-signature`)
+ */
+const renderSignatureFooter = (signature: ResultSignature | null): string =>
+  signature
+    ? `<footer class="signature">Signed by <span class="wallet">${signature.signer}</span> · ${signature.subject} sha256 <span class="wallet">${signature.digest}</span> · ${signature.signed_at}</footer>`
+    : '<footer class="signature">Unsigned results</footer>'
+
+/**
+ * Renders one ranked wallet table section
+ */
+const renderRankingSection = (
+  tableId: string,
+  title: string,
+  entries: WalletEntry[],
+  symbol: string,
+  withEligible: boolean,
+): string => `
+    <div class="section">
+      <h2>${title}</h2>
+      <table id="${tableId}">
+        <thead>
+          <tr>
+            <th style="width: 60px;">Rank</th>
+            <th>Wallet Address</th>
+            <th style="width: 90px;">Type</th>
+            <th style="width: 180px;">Transfer Count</th>${
+              withEligible
+                ? `
+            <th style="width: 130px;">Eligible</th>`
+                : ''
+            }
+            <th style="width: 180px;">Volume (${symbol})</th>
+            <th style="width: 150px;">Share %</th>
+          </tr>
+        </thead>
+        <tbody>
+          ${entries
+            .map(
+              (entry, idx) => `
+            <tr class="${idx < 3 ? 'top-3' : ''}" data-wallet="${entry.wallet.toLowerCase()}">
+              <td class="rank">#${idx + 1}</td>
+              <td class="wallet">${entry.wallet}${renderSybilFlags(entry)}</td>
+              <td>${renderAddressType(entry.address_type)}</td>
+              <td>${entry.count.toLocaleString(LOCALE)}</td>${
+                withEligible
+                  ? `
+              <td>${entry.eligible.toLocaleString(LOCALE)}</td>`
+                  : ''
+              }
+              <td>${entry.volume.formatted.total}</td>
+              <td>${entry.percent}</td>
+            </tr>`,
+            )
+            .join('')}
+        </tbody>
+      </table>
+    </div>`
+
+/**
+ * Renders the combined ranking: one row per wallet with per-direction and total counts
+ */
+const renderCombinedSection = (
+  entries: CombinedWalletEntry[],
+  withD2d: boolean,
+  symbol: string,
+  withEligible: boolean,
+): string => `
+    <div class="section">
+      <h2>Combined Rankings (All Directions)</h2>
+      <table id="combinedTable">
+        <thead>
+          <tr>
+            <th style="width: 60px;">Rank</th>
+            <th>Wallet Address</th>
+            <th style="width: 90px;">Type</th>
+            <th style="width: 110px;">D2C</th>
+            <th style="width: 110px;">C2D</th>${
+              withD2d
+                ? `
+            <th style="width: 110px;">D2D</th>`
+                : ''
+            }
+            <th style="width: 130px;">Total</th>${
+              withEligible
+                ? `
+            <th style="width: 130px;">Eligible</th>`
+                : ''
+            }
+            <th style="width: 180px;">Volume (${symbol})</th>
+            <th style="width: 130px;">First Active</th>
+            <th style="width: 150px;">Share %</th>
+          </tr>
+        </thead>
+        <tbody>
+          ${entries
+            .map(
+              (entry, idx) => `
+            <tr class="${idx < 3 ? 'top-3' : ''}" data-wallet="${entry.wallet.toLowerCase()}">
+              <td class="rank">#${idx + 1}</td>
+              <td class="wallet">${entry.wallet}${renderSybilFlags(entry, entry.sybil_cluster)}</td>
+              <td>${renderAddressType(entry.address_type)}</td>
+              <td>${entry.d2c.toLocaleString(LOCALE)}</td>
+              <td>${entry.c2d.toLocaleString(LOCALE)}</td>${
+                withD2d
+                  ? `
+              <td>${entry.d2d.toLocaleString(LOCALE)}</td>`
+                  : ''
+              }
+              <td>${entry.total.toLocaleString(LOCALE)}</td>${
+                withEligible
+                  ? `
+              <td>${entry.eligible.total.toLocaleString(LOCALE)}</td>`
+                  : ''
+              }
+              <td>${entry.volume.formatted.total}</td>
+              <td>${entry.first_active?.slice(0, 10) ?? '—'}</td>
+              <td>${entry.percent}</td>
+            </tr>`,
+            )
+            .join('')}
+        </tbody>
+      </table>
+    </div>`
+
+/**
+ * Renders volume statistics per direction and the transfer size histogram
+ */
+const renderVolumeSection = (result: CountsResult): string => {
+  const { symbol, decimals } = result.token
+  const directions: [string, DirectionVolume][] = [
+    ['D2C', result.volume.d2c],
+    ['C2D', result.volume.c2d],
+    ...(result.totals.d2d > 0 ? [['D2D', result.volume.d2d] as [string, DirectionVolume]] : []),
+    ['All', result.volume.overall],
+  ]
+  return `
+    <div class="section">
+      <h2>Transfer Volume (${symbol})</h2>
+      <table>
+        <thead>
+          <tr>
+            <th>Direction</th>
+            <th>Transfers</th>
+            <th>Total</th>
+            <th>Mean</th>
+            <th>Median</th>
+            <th>Min</th>
+            <th>Max</th>
+          </tr>
+        </thead>
+        <tbody>
+          ${directions
+            .map(
+              ([label, v]) => `
+            <tr>
+              <td class="rank">${label}</td>
+              <td>${v.transfers.toLocaleString(LOCALE)}</td>
+              <td>${v.formatted.total}</td>
+              <td>${v.formatted.mean}</td>
+              <td>${v.formatted.median}</td>
+              <td>${v.formatted.min}</td>
+              <td>${v.formatted.max}</td>
+            </tr>`,
+            )
+            .join('')}
+        </tbody>
+      </table>
+      <h2 style="margin-top: 30px;">Transfer Size Distribution (${symbol})</h2>
+      <table>
+        <thead>
+          <tr>
+            <th>Size</th>
+            ${directions.map(([label]) => `<th>${label} Transfers</th>`).join('')}
+            <th>All Volume</th>
+          </tr>
+        </thead>
+        <tbody>
+          ${result.volume.overall.histogram
+            .map(
+              (bucket, i) => `
+            <tr>
+              <td class="rank">${bucket.label}</td>
+              ${directions.map(([, v]) => `<td>${v.histogram[i].transfers.toLocaleString(LOCALE)}</td>`).join('')}
+              <td>${formatUnits(BigInt(bucket.total), decimals)}</td>
+            </tr>`,
+            )
+            .join('')}
+        </tbody>
+      </table>
+    </div>`
+}
+
+/**
+ * Renders the daily transfers per direction as a stacked SVG bar chart
+ */
+const renderTimelineSection = (result: CountsResult): string => {
+  const { daily } = result.timeseries
+  if (daily.overall.length === 0) return ''
+
+  const width = 1000
+  const height = 240
+  const top = 20
+  const bottom = 30
+  const plotHeight = height - top - bottom
+  const max = Math.max(...daily.overall.map((b) => b.transfers))
+  const slot = width / daily.overall.length
+  const barWidth = Math.max(1, slot * 0.8)
+  const countAt = (series: TimeBucket[]) => new Map(series.map((b) => [b.bucket, b.transfers]))
+  const layers: [string, Map<string, number>, string][] = [
+    ['D2C', countAt(daily.d2c), 'var(--accent-color)'],
+    ['C2D', countAt(daily.c2d), '#28a745'],
+    ['D2D', countAt(daily.d2d), '#fd7e14'],
+  ]
+
+  const bars = daily.overall
+    .map((day, i) => {
+      let y = top + plotHeight
+      const rects = layers
+        .map(([, counts, color]) => {
+          const h = ((counts.get(day.bucket) ?? 0) / max) * plotHeight
+          y -= h
+          return h > 0
+            ? `<rect x="${(i * slot).toFixed(2)}" y="${y.toFixed(2)}" width="${barWidth.toFixed(2)}" height="${h.toFixed(2)}" fill="${color}"></rect>`
+            : ''
+        })
+        .join('')
+      const tooltip = layers
+        .map(
+          ([label, counts]) => `${label} ${(counts.get(day.bucket) ?? 0).toLocaleString(LOCALE)}`,
+        )
+        .join(', ')
+      return `<g><title>${day.bucket}: ${tooltip}</title>${rects}</g>`
+    })
+    .join('')
+
+  const first = daily.overall[0].bucket
+  const last = daily.overall[daily.overall.length - 1].bucket
+  const legend = layers
+    .filter(([, counts]) => counts.size > 0)
+    .map(
+      ([label, , color]) =>
+        `<span style="margin-right: 16px;"><span style="display: inline-block; width: 12px; height: 12px; background: ${color}; margin-right: 6px;"></span>${label}</span>`,
+    )
+    .join('')
+
+  return `
+    <div class="section">
+      <h2>Daily Transfers</h2>
+      <div style="font-size: 13px; color: var(--text-secondary); margin-bottom: 10px;">${legend}</div>
+      <svg viewBox="0 0 ${width} ${height}" style="width: 100%; height: auto;" role="img" aria-label="Daily transfers per direction">
+        <line x1="0" y1="${top + plotHeight}" x2="${width}" y2="${top + plotHeight}" stroke="var(--border-color)"></line>
+        <text x="0" y="12" font-size="12" fill="var(--text-secondary)">${max.toLocaleString(LOCALE)} / day</text>
+        ${bars}
+        <text x="0" y="${height - 8}" font-size="12" fill="var(--text-secondary)">${first}</text>
+        <text x="${width}" y="${height - 8}" font-size="12" fill="var(--text-secondary)" text-anchor="end">${last}</text>
+      </svg>
+    </div>`
+}
+
+/**
+ * Wallet count for a total card, with the EVM (H160) share when there is one
+ */
+const walletSummary = (entries: WalletEntry[]): string => {
+  const evm = entries.filter((e) => e.address_type === 'h160').length
+  const wallets = `${entries.length.toLocaleString(LOCALE)} wallets`
+  return evm > 0 ? `${wallets} (${evm.toLocaleString(LOCALE)} EVM)` : wallets
+}
+
+/**
+ * Renders the HTML leaderboard page for transfer count results
  *
- * @param filePath - Absolute path where the HTML file should be written
  * @param result - Transfer count statistics and metadata
+ * @param signature - Signature shown in the footer, null for unsigned results
  */
-export const generateHtmlLeaderboard = (filePath: string, result: CountsResult): void => {
-  ensureDir(path.dirname(filePath))
+export const renderHtmlLeaderboard = (
+  result: CountsResult,
+  signature: ResultSignature | null = null,
+): string => {
+  const withEligible = result.eligibility.rules_file != null
+  const excludedTotal = Object.values(result.eligibility.excluded).reduce((s, n) => s + n, 0)
 
-  const html = `<!DOCTYPE html>
+  return `<!DOCTYPE html>
 <html lang="en">
 <head>
   <meta charset="UTF-8">
@@ -96,93 +416,80 @@ export const generateHtmlLeaderboard = (filePath: string, result: CountsResult):
     .highlight { background: var(--bg-highlight) !important; }
     .rank { font-weight: bold; color: var(--text-secondary); }
     .top-3 { background: var(--bg-top3); }
+    .address-type { font-size: 12px; font-weight: 600; padding: 2px 8px; border-radius: 4px; background: var(--bg-section); color: var(--text-secondary); }
+    .address-type.h160 { color: var(--accent-color); }
+    .signature { margin-top: 30px; padding-top: 16px; border-top: 1px solid var(--border-color); font-size: 12px; color: var(--text-muted); word-break: break-all; }
+    .sybil-flag { display: inline-block; margin-left: 8px; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif; font-size: 11px; font-weight: 600; padding: 1px 6px; border-radius: 4px; background: #f8d7da; color: #842029; cursor: help; }
   </style>
 </head>
 <body>
   <div class="container">
     <button class="dark-mode-toggle" id="darkModeToggle">🌙 Dark Mode</button>
     <h1>Game of Domains: Crossing the Narrow Sea</h1>
-    <p class="subtitle">Transfer Leaderboard - Generated ${result.generated_at}</p>
+    <p class="subtitle">Transfer Leaderboard - Generated ${result.generated_at}<br><span class="wallet">Merkle root ${result.merkle.root}</span></p>
 
     <div class="totals">
       <div class="total-card">
         <h3>Total Transfers</h3>
-        <div class="value">${result.totals.overall.toLocaleString()}</div>
-      </div>
+        <div class="value">${result.totals.overall.toLocaleString(LOCALE)}</div>
+        <div style="font-size: 14px; color: var(--text-secondary); margin-top: 8px;">${result.volume.overall.formatted.total} ${result.token.symbol}</div>
+      </div>${
+        withEligible
+          ? `
+      <div class="total-card">
+        <h3>Eligible Transfers</h3>
+        <div class="value">${result.eligibility.eligible.overall.toLocaleString(LOCALE)}</div>
+        <div style="font-size: 14px; color: var(--text-secondary); margin-top: 8px;">${excludedTotal.toLocaleString(LOCALE)} excluded by rules</div>
+      </div>`
+          : ''
+      }
       <div class="total-card">
         <h3>D2C Transfers</h3>
-        <div class="value">${result.totals.d2c.toLocaleString()}</div>
+        <div class="value">${result.totals.d2c.toLocaleString(LOCALE)}</div>
         <div class="percent">${result.totals.d2c_percent}</div>
-        <div style="font-size: 14px; color: var(--text-secondary); margin-top: 8px;">${result.d2c.length.toLocaleString()} wallets</div>
+        <div style="font-size: 14px; color: var(--text-secondary); margin-top: 8px;">${walletSummary(result.d2c)}</div>
+        <div style="font-size: 14px; color: var(--text-secondary); margin-top: 4px;">${result.volume.d2c.formatted.total} ${result.token.symbol}</div>
         <div style="font-size: 12px; color: var(--text-muted); margin-top: 4px;">Blocks ${result.block_ranges.domain_start} → ${result.block_ranges.domain_end}</div>
       </div>
       <div class="total-card">
         <h3>C2D Transfers</h3>
-        <div class="value">${result.totals.c2d.toLocaleString()}</div>
+        <div class="value">${result.totals.c2d.toLocaleString(LOCALE)}</div>
         <div class="percent">${result.totals.c2d_percent}</div>
-        <div style="font-size: 14px; color: var(--text-secondary); margin-top: 8px;">${result.c2d.length.toLocaleString()} wallets</div>
+        <div style="font-size: 14px; color: var(--text-secondary); margin-top: 8px;">${walletSummary(result.c2d)}</div>
+        <div style="font-size: 14px; color: var(--text-secondary); margin-top: 4px;">${result.volume.c2d.formatted.total} ${result.token.symbol}</div>
         <div style="font-size: 12px; color: var(--text-muted); margin-top: 4px;">Blocks ${result.block_ranges.consensus_start} → ${result.block_ranges.consensus_end}</div>
-      </div>
+      </div>${
+        result.totals.d2d > 0
+          ? `
+      <div class="total-card">
+        <h3>D2D Transfers</h3>
+        <div class="value">${result.totals.d2d.toLocaleString(LOCALE)}</div>
+        <div class="percent">${result.totals.d2d_percent}</div>
+        <div style="font-size: 14px; color: var(--text-secondary); margin-top: 8px;">${walletSummary(result.d2d)}</div>
+        <div style="font-size: 14px; color: var(--text-secondary); margin-top: 4px;">${result.volume.d2d.formatted.total} ${result.token.symbol}</div>
+      </div>`
+          : ''
+      }
     </div>
 
+    ${renderTimelineSection(result)}
+
     <div class="search-box">
       <input type="text" id="searchInput" placeholder="Search by wallet address..." aria-label="Search wallet addresses">
       <p style="margin-top: 8px; color: #666; font-size: 13px;">Type any part of a wallet address to filter and highlight matches</p>
     </div>
 
-    <div class="section">
-      <h2>Domain → Consensus (D2C) Rankings</h2>
-      <table id="d2cTable">
-        <thead>
-          <tr>
-            <th style="width: 60px;">Rank</th>
-            <th>Wallet Address</th>
-            <th style="width: 180px;">Transfer Count</th>
-            <th style="width: 150px;">Share %</th>
-          </tr>
-        </thead>
-        <tbody>
-          ${result.d2c
-            .map(
-              (entry, idx) => `
-            <tr class="${idx < 3 ? 'top-3' : ''}" data-wallet="${entry.wallet.toLowerCase()}">
-              <td class="rank">#${idx + 1}</td>
-              <td class="wallet">${entry.wallet}</td>
-              <td>${entry.count.toLocaleString()}</td>
-              <td>${entry.percent}</td>
-            </tr>`,
-            )
-            .join('')}
-        </tbody>
-      </table>
-    </div>
+    ${renderRankingSection('d2cTable', 'Domain → Consensus (D2C) Rankings', result.d2c, result.token.symbol, withEligible)}
 
-    <div class="section">
-      <h2>Consensus → Domain (C2D) Rankings</h2>
-      <table id="c2dTable">
-        <thead>
-          <tr>
-            <th style="width: 60px;">Rank</th>
-            <th>Wallet Address</th>
-            <th style="width: 180px;">Transfer Count</th>
-            <th style="width: 150px;">Share %</th>
-          </tr>
-        </thead>
-        <tbody>
-          ${result.c2d
-            .map(
-              (entry, idx) => `
-            <tr class="${idx < 3 ? 'top-3' : ''}" data-wallet="${entry.wallet.toLowerCase()}">
-              <td class="rank">#${idx + 1}</td>
-              <td class="wallet">${entry.wallet}</td>
-              <td>${entry.count.toLocaleString()}</td>
-              <td>${entry.percent}</td>
-            </tr>`,
-            )
-            .join('')}
-        </tbody>
-      </table>
-    </div>
+    ${renderRankingSection('c2dTable', 'Consensus → Domain (C2D) Rankings', result.c2d, result.token.symbol, withEligible)}
+
+    ${renderCombinedSection(result.combined, result.d2d.length > 0, result.token.symbol, withEligible)}
+
+    ${result.d2d.length > 0 ? renderRankingSection('d2dTable', 'Domain → Domain (D2D) Rankings', result.d2d, result.token.symbol, withEligible) : ''}
+
+    ${renderVolumeSection(result)}
+
+    ${renderSignatureFooter(signature)}
   </div>
 
   <script>
@@ -222,7 +529,7 @@ export const generateHtmlLeaderboard = (filePath: string, result: CountsResult):
       const search = e.target.value.toLowerCase();
 
       tables.forEach(table => {
-        const rows = table.querySelectorAll('tbody tr');
+        const rows = table.querySelectorAll('tbody tr[data-wallet]');
         rows.forEach(row => {
           const wallet = row.getAttribute('data-wallet');
           if (wallet.includes(search)) {
@@ -246,6 +553,19 @@ export const generateHtmlLeaderboard = (filePath: string, result: CountsResult):
   </script>
 </body>
 </html>`
+}
 
-  fs.writeFileSync(filePath, html, 'utf8')
+/**
+ * Generates an HTML leaderboard file from transfer count results
+ *
+ * @param filePath - Absolute path where the HTML file should be written
+ * @param result - Transfer count statistics and metadata
+ */
+export const generateHtmlLeaderboard = (
+  filePath: string,
+  result: CountsResult,
+  signature: ResultSignature | null = null,
+): void => {
+  ensureDir(path.dirname(filePath))
+  fs.writeFileSync(filePath, renderHtmlLeaderboard(result, signature), 'utf8')
 }
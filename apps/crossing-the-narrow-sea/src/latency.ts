@@ -0,0 +1,259 @@
+import 'dotenv/config'
+import * as fs from 'node:fs'
+import * as path from 'node:path'
+import { openDb } from './sqlite'
+import type { ChainKey, Direction } from './chains'
+import { directionOf } from './chains'
+
+// End-to-end XDM latency per direction: source → destination (delivery), destination → ack,
+// and source → ack (round trip), in blocks and in seconds
+const OUTPUT_DIR = process.env.OUTPUT_DIR || 'exports'
+const DB_PATH = `${OUTPUT_DIR}/xdm.sqlite`
+const LATENCY_TOP = Math.max(0, Number(process.env.LATENCY_TOP || 20))
+
+export interface Distribution {
+  count: number
+  min: number | null
+  mean: number | null
+  p50: number | null
+  p90: number | null
+  p95: number | null
+  p99: number | null
+  max: number | null
+}
+
+interface StageLatency {
+  /** Block time difference */
+  seconds: Distribution
+  /** Blocks elapsed on the chain where the stage completes */
+  blocks: Distribution
+}
+
+export interface DirectionLatency {
+  initiated: number
+  delivered: number
+  acknowledged: number
+  ack_errors: number
+  delivery: StageLatency
+  ack: StageLatency
+  round_trip: StageLatency
+}
+
+export interface SlowTransfer {
+  direction: Direction
+  source_chain: ChainKey
+  destination_chain: ChainKey
+  channel_id: number
+  nonce: string
+  from: string
+  source_block_height: number
+  dest_block_height: number | null
+  ack_block_height: number | null
+  delivery_seconds: number | null
+  delivery_blocks: number | null
+  ack_seconds: number | null
+  round_trip_blocks: number | null
+}
+
+export interface LatencyReport {
+  db_path: string
+  output_file: string
+  directions: Partial<Record<Direction, DirectionLatency>>
+  slowest: SlowTransfer[]
+  generated_at: string
+}
+
+// Block heights "at the time" of another chain's block come from the newest block with a
+// timestamp at or before it, so cross-chain delays can be expressed in blocks of one chain
+const LATENCY_SQL = `
+  SELECT
+    i.source_chain,
+    i.dst_chain,
+    i.channel_id,
+    i.nonce,
+    i.from_address,
+    i.source_block_height,
+    ds.destination_block_height,
+    a.source_block_height AS ack_block_height,
+    a.result AS ack_result,
+    st.timestamp_ms AS source_ts,
+    dt.timestamp_ms AS dest_ts,
+    at.timestamp_ms AS ack_ts,
+    (SELECT b.block_height FROM block_timestamps b
+      WHERE b.chain = ds.destination_chain AND b.timestamp_ms <= st.timestamp_ms
+      ORDER BY b.timestamp_ms DESC LIMIT 1) AS dest_height_at_source,
+    (SELECT b.block_height FROM block_timestamps b
+      WHERE b.chain = i.source_chain AND b.timestamp_ms <= dt.timestamp_ms
+      ORDER BY b.timestamp_ms DESC LIMIT 1) AS source_height_at_dest
+  FROM source_inits i
+  LEFT JOIN destination_successes ds
+    ON ds.channel_id = i.channel_id AND ds.nonce = i.nonce
+    AND ds.destination_chain = i.dst_chain AND ds.src_chain = i.source_chain
+  LEFT JOIN source_acks a
+    ON a.channel_id = i.channel_id AND a.nonce = i.nonce
+    AND a.source_chain = i.source_chain AND a.dst_chain = i.dst_chain
+  LEFT JOIN block_timestamps st
+    ON st.chain = i.source_chain AND st.block_height = i.source_block_height
+  LEFT JOIN block_timestamps dt
+    ON dt.chain = ds.destination_chain AND dt.block_height = ds.destination_block_height
+  LEFT JOIN block_timestamps at
+    ON at.chain = a.source_chain AND at.block_height = a.source_block_height
+`
+
+const diff = (later: unknown, earlier: unknown): number | null =>
+  later != null && earlier != null ? Number(later) - Number(earlier) : null
+
+const msToSeconds = (ms: number | null): number | null => (ms != null ? ms / 1000 : null)
+
+// Nearest-rank percentiles
+const distribution = (values: number[]): Distribution => {
+  const sorted = [...values].sort((a, b) => a - b)
+  const n = sorted.length
+  const rank = (p: number) => (n ? sorted[Math.max(0, Math.ceil((p / 100) * n) - 1)] : null)
+  return {
+    count: n,
+    min: n ? sorted[0] : null,
+    mean: n ? Number((sorted.reduce((s, v) => s + v, 0) / n).toFixed(3)) : null,
+    p50: rank(50),
+    p90: rank(90),
+    p95: rank(95),
+    p99: rank(99),
+    max: n ? sorted[n - 1] : null,
+  }
+}
+
+interface StageSamples {
+  seconds: number[]
+  blocks: number[]
+}
+
+interface DirectionSamples {
+  initiated: number
+  delivered: number
+  acknowledged: number
+  ack_errors: number
+  delivery: StageSamples
+  ack: StageSamples
+  round_trip: StageSamples
+}
+
+const newSamples = (): DirectionSamples => ({
+  initiated: 0,
+  delivered: 0,
+  acknowledged: 0,
+  ack_errors: 0,
+  delivery: { seconds: [], blocks: [] },
+  ack: { seconds: [], blocks: [] },
+  round_trip: { seconds: [], blocks: [] },
+})
+
+const push = (samples: number[], value: number | null) => {
+  if (value != null && value >= 0) samples.push(value)
+}
+
+const stageLatency = (samples: StageSamples): StageLatency => ({
+  seconds: distribution(samples.seconds),
+  blocks: distribution(samples.blocks),
+})
+
+// Slowest first: delivery time, then round-trip blocks for rows without timestamps
+const slowerFirst = (a: SlowTransfer, b: SlowTransfer): number =>
+  (b.delivery_seconds ?? -1) - (a.delivery_seconds ?? -1) ||
+  (b.round_trip_blocks ?? -1) - (a.round_trip_blocks ?? -1)
+
+/**
+ * Builds the latency report from xdm.sqlite and writes `${OUTPUT_DIR}/latency.json`
+ */
+export const runLatency = async (): Promise<LatencyReport> => {
+  const db = openDb(DB_PATH)
+  const byDirection = new Map<Direction, DirectionSamples>()
+  let slowest: SlowTransfer[] = []
+
+  try {
+    for (const r of db.prepare(LATENCY_SQL).iterate() as Iterable<any>) {
+      const direction = directionOf(r.source_chain, r.dst_chain)
+      const samples = byDirection.get(direction) ?? newSamples()
+      byDirection.set(direction, samples)
+      samples.initiated += 1
+
+      const delivered = r.destination_block_height != null
+      const acked = r.ack_block_height != null
+      if (delivered) samples.delivered += 1
+      if (acked) samples.acknowledged += 1
+      if (acked && r.ack_result !== 'Ok') samples.ack_errors += 1
+
+      const deliverySeconds = msToSeconds(diff(r.dest_ts, r.source_ts))
+      const deliveryBlocks = diff(r.destination_block_height, r.dest_height_at_source)
+      const ackSeconds = msToSeconds(diff(r.ack_ts, r.dest_ts))
+      const roundTripBlocks = diff(r.ack_block_height, r.source_block_height)
+
+      push(samples.delivery.seconds, deliverySeconds)
+      push(samples.delivery.blocks, deliveryBlocks)
+      push(samples.ack.seconds, ackSeconds)
+      push(samples.ack.blocks, diff(r.ack_block_height, r.source_height_at_dest))
+      push(samples.round_trip.seconds, msToSeconds(diff(r.ack_ts, r.source_ts)))
+      push(samples.round_trip.blocks, roundTripBlocks)
+
+      if (LATENCY_TOP > 0 && delivered) {
+        slowest.push({
+          direction,
+          source_chain: String(r.source_chain),
+          destination_chain: String(r.dst_chain),
+          channel_id: Number(r.channel_id),
+          nonce: String(r.nonce),
+          from: String(r.from_address || ''),
+          source_block_height: Number(r.source_block_height),
+          dest_block_height: Number(r.destination_block_height),
+          ack_block_height: acked ? Number(r.ack_block_height) : null,
+          delivery_seconds: deliverySeconds,
+          delivery_blocks: deliveryBlocks,
+          ack_seconds: ackSeconds,
+          round_trip_blocks: roundTripBlocks,
+        })
+        // Keep memory bounded on large databases
+        if (slowest.length >= LATENCY_TOP * 4) {
+          slowest = slowest.sort(slowerFirst).slice(0, LATENCY_TOP)
+        }
+      }
+    }
+  } finally {
+    db.close()
+  }
+
+  const directions: Partial<Record<Direction, DirectionLatency>> = {}
+  for (const [direction, s] of byDirection) {
+    directions[direction] = {
+      initiated: s.initiated,
+      delivered: s.delivered,
+      acknowledged: s.acknowledged,
+      ack_errors: s.ack_errors,
+      delivery: stageLatency(s.delivery),
+      ack: stageLatency(s.ack),
+      round_trip: stageLatency(s.round_trip),
+    }
+  }
+
+  const outputFile = path.resolve(OUTPUT_DIR, 'latency.json')
+  const report: LatencyReport = {
+    db_path: DB_PATH,
+    output_file: outputFile,
+    directions,
+    slowest: slowest.sort(slowerFirst).slice(0, LATENCY_TOP),
+    generated_at: new Date().toISOString(),
+  }
+  fs.mkdirSync(path.dirname(outputFile), { recursive: true })
+  fs.writeFileSync(outputFile, JSON.stringify(report, null, 2) + '\n', 'utf8')
+  return report
+}
+
+const main = async () => {
+  const report = await runLatency()
+  console.log(JSON.stringify(report, null, 2))
+}
+
+if (require.main === module) {
+  main().catch((err) => {
+    console.error(err)
+    process.exit(1)
+  })
+}
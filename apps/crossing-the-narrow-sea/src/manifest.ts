@@ -0,0 +1,238 @@
+/**
+ * Run manifest: checksums of the published artifacts plus everything needed to reproduce them
+ *
+ * `match` writes the capture side (xdm.sqlite, the NDJSON files, each chain's block window
+ * with its boundary block hashes and runtime versions); `counts` adds counts_per_wallet.json
+ * and the settings it was computed with. `verify` recomputes both from the shared files.
+ */
+
+import { execFileSync } from 'node:child_process'
+import { createHash } from 'node:crypto'
+import * as fs from 'node:fs'
+import * as path from 'node:path'
+import { getRuntimeVersions, openDb } from './sqlite'
+import type { RuntimeVersion } from './sqlite'
+import type { ChainKey } from './chains'
+import { CONSENSUS, getChainConfig } from './chains'
+import type { LateDeliveryPolicy } from './run-config'
+import type { CountsResult, EligibilityRules, TokenInfo } from './types'
+
+export interface ArtifactDigest {
+  sha256: string
+  bytes: number
+}
+
+export interface ChainWindowManifest {
+  start: number | null
+  end: number | null
+  /** Hashes of the boundary blocks, null when the block was not captured */
+  start_hash: string | null
+  end_hash: string | null
+  last_captured: number | null
+  runtime_versions: Omit<RuntimeVersion, 'chain'>[]
+}
+
+/**
+ * Inputs of `counts` besides the NDJSON files
+ */
+export interface CountsSettings {
+  ss58_prefix: number
+  token: TokenInfo
+  eligibility_rules: EligibilityRules
+  /** sybil_report.json the flags came from, null when there was none */
+  sybil_report_sha256: string | null
+}
+
+export interface RunManifest {
+  tool: { name: string; version: string; git_commit: string | null; git_dirty: boolean | null }
+  windows: Record<ChainKey, ChainWindowManifest>
+  late_delivery_policy: LateDeliveryPolicy | null
+  /** Keyed by file name relative to the output directory */
+  artifacts: Record<string, ArtifactDigest>
+  counts: { settings: CountsSettings; results_sha256: string } | null
+  updated_by: 'match' | 'counts'
+  generated_at: string
+}
+
+export const MANIFEST_FILE = 'manifest.json'
+
+/** Set `WRITE_MANIFEST=false` to skip hashing, e.g. in a tight `refresh` loop */
+export const manifestEnabled = (): boolean => process.env.WRITE_MANIFEST !== 'false'
+
+export const sha256File = (filePath: string): Promise<ArtifactDigest> =>
+  new Promise((resolve, reject) => {
+    const hash = createHash('sha256')
+    let bytes = 0
+    fs.createReadStream(filePath)
+      .on('data', (chunk) => {
+        hash.update(chunk)
+        bytes += chunk.length
+      })
+      .on('error', reject)
+      .on('end', () => resolve({ sha256: hash.digest('hex'), bytes }))
+  })
+
+// Fields that depend on where and when counts ran, not on its inputs
+const VOLATILE_COUNTS_KEYS = new Set([
+  'generated_at',
+  'output_dir',
+  'files',
+  'block_ranges',
+  'chain_windows',
+  'rules_file',
+  'report_file',
+])
+
+/**
+ * SHA-256 of a counts result without paths, timestamps and environment echoes
+ */
+export const countsResultsDigest = (result: CountsResult): string =>
+  createHash('sha256')
+    .update(
+      JSON.stringify(result, (key, value) => (VOLATILE_COUNTS_KEYS.has(key) ? undefined : value)),
+    )
+    .digest('hex')
+
+const git = (args: string[]): string | null => {
+  try {
+    return execFileSync('git', args, { cwd: __dirname, stdio: ['ignore', 'pipe', 'ignore'] })
+      .toString()
+      .trim()
+  } catch {
+    return null
+  }
+}
+
+export const toolInfo = (): RunManifest['tool'] => {
+  const pkg = JSON.parse(fs.readFileSync(path.resolve(__dirname, '../package.json'), 'utf8')) as {
+    name: string
+    version: string
+  }
+  const status = git(['status', '--porcelain', '--', '.'])
+  return {
+    name: pkg.name,
+    version: pkg.version,
+    git_commit: git(['rev-parse', 'HEAD']),
+    git_dirty: status == null ? null : status !== '',
+  }
+}
+
+export const readManifest = (outputDir: string): RunManifest | null => {
+  const file = path.resolve(outputDir, MANIFEST_FILE)
+  return fs.existsSync(file) ? (JSON.parse(fs.readFileSync(file, 'utf8')) as RunManifest) : null
+}
+
+const writeManifestFile = (outputDir: string, manifest: RunManifest): string => {
+  const file = path.resolve(outputDir, MANIFEST_FILE)
+  fs.mkdirSync(path.dirname(file), { recursive: true })
+  fs.writeFileSync(file, JSON.stringify(manifest, null, 2) + '\n', 'utf8')
+  return file
+}
+
+const heightOrNull = (height: number): number | null => (Number.isNaN(height) ? null : height)
+
+// Window of every captured chain with the hashes of its boundary blocks
+const chainWindows = (dbPath: string): Record<ChainKey, ChainWindowManifest> => {
+  const db = openDb(dbPath)
+  try {
+    const progress = db.prepare('SELECT chain, last_block_height FROM scan_progress').all() as {
+      chain: ChainKey
+      last_block_height: number
+    }[]
+    const lastCaptured = new Map(progress.map((p) => [p.chain, p.last_block_height]))
+    const chains = [...new Set([CONSENSUS, ...lastCaptured.keys()])].sort()
+    const hashAt = db.prepare(`
+      SELECT block_hash FROM runtime_versions WHERE chain = @chain AND block_height = @height
+      UNION ALL
+      SELECT block_hash FROM block_timestamps WHERE chain = @chain AND block_height = @height
+      LIMIT 1
+    `)
+    const boundaryHash = (chain: ChainKey, height: number | null): string | null =>
+      height == null
+        ? null
+        : ((hashAt.get({ chain, height }) as { block_hash: string } | undefined)?.block_hash ??
+          null)
+
+    return Object.fromEntries(
+      chains.map((chain) => {
+        const config = getChainConfig(chain)
+        const start = heightOrNull(config.start)
+        const end = heightOrNull(config.end)
+        return [
+          chain,
+          {
+            start,
+            end,
+            start_hash: boundaryHash(chain, start),
+            end_hash: boundaryHash(chain, end),
+            last_captured: lastCaptured.get(chain) ?? null,
+            runtime_versions: getRuntimeVersions(db, chain).map(({ chain: _, ...v }) => v),
+          },
+        ]
+      }),
+    )
+  } finally {
+    // Fold the WAL into the main file so its checksum covers every captured row
+    db.pragma('wal_checkpoint(TRUNCATE)')
+    db.close()
+  }
+}
+
+const digestFiles = async (outputDir: string, names: string[]) => {
+  const artifacts: Record<string, ArtifactDigest> = {}
+  for (const name of names) {
+    const file = path.resolve(outputDir, name)
+    if (fs.existsSync(file)) artifacts[name] = await sha256File(file)
+  }
+  return artifacts
+}
+
+/**
+ * Written by `match`: resets the manifest to the capture database and the NDJSON files
+ */
+export const writeMatchManifest = async (
+  outputDir: string,
+  dbPath: string,
+  policy: LateDeliveryPolicy,
+): Promise<string> => {
+  const windows = chainWindows(dbPath)
+  const artifacts = await digestFiles(outputDir, [
+    path.relative(outputDir, dbPath),
+    'd2c_transfers.ndjson',
+    'c2d_transfers.ndjson',
+    'd2d_transfers.ndjson',
+  ])
+  return writeManifestFile(outputDir, {
+    tool: toolInfo(),
+    windows,
+    late_delivery_policy: policy,
+    artifacts,
+    counts: null,
+    updated_by: 'match',
+    generated_at: new Date().toISOString(),
+  })
+}
+
+/**
+ * Written by `counts`: adds counts_per_wallet.json and its settings to the manifest
+ */
+export const writeCountsManifest = async (
+  outputDir: string,
+  result: CountsResult,
+  settings: CountsSettings,
+): Promise<string> => {
+  const previous = readManifest(outputDir)
+  const artifacts = {
+    ...previous?.artifacts,
+    ...(await digestFiles(outputDir, ['counts_per_wallet.json'])),
+  }
+  return writeManifestFile(outputDir, {
+    tool: toolInfo(),
+    windows: previous?.windows ?? {},
+    late_delivery_policy: previous?.late_delivery_policy ?? null,
+    artifacts,
+    counts: { settings, results_sha256: countsResultsDigest(result) },
+    updated_by: 'counts',
+    generated_at: new Date().toISOString(),
+  })
+}
@@ -2,10 +2,21 @@ import 'dotenv/config'
 import * as fs from 'node:fs'
 import * as path from 'node:path'
 import { openDb } from './sqlite'
+import type { ChainKey, Direction } from './chains'
+import { directionOf, getChainConfig } from './chains'
+import type { AddressType } from './evm'
+import type { LateDeliveryPolicy } from './run-config'
+import { lateDeliveryFromEnv } from './run-config'
+import { manifestEnabled, writeMatchManifest } from './manifest'
 
 interface MatchedTransferRow {
-  direction: 'd2c' | 'c2d'
+  direction: Direction
+  source_chain: ChainKey
+  destination_chain: ChainKey
   from: string
+  from_type: AddressType
+  to: string | null
+  attribution_path: string | null
   channel_id: number
   nonce: string
   amount: string
@@ -14,6 +25,9 @@ interface MatchedTransferRow {
   source_extrinsic_index: number | null
   dest_block_height: number | null
   dest_block_hash: string | null
+  /** Source / destination block times (Unix ms), null when not captured */
+  source_timestamp: number | null
+  dest_timestamp: number | null
 }
 
 const OUTPUT_DIR = process.env.OUTPUT_DIR || 'exports'
@@ -42,7 +56,7 @@ const asBoolean = (v: any): boolean => v != null && v !== 0 && String(v) !== ''
 const buildIterator = (
   sql: string,
   params: any[],
-  direction: 'd2c' | 'c2d',
+  direction: Direction,
 ): Iterable<MatchedTransferRow> => {
   const db = openDb(DB_PATH)
   const stmt = db.prepare(sql)
@@ -59,7 +73,12 @@ const buildIterator = (
 
           yield {
             direction,
+            source_chain: String(r.source_chain),
+            destination_chain: String(r.dst_chain),
             from: r.from_address || '',
+            from_type: (r.from_address_type || 'ss58') as AddressType,
+            to: r.to_address != null ? String(r.to_address) : null,
+            attribution_path: r.attribution_path != null ? String(r.attribution_path) : null,
             channel_id: Number(r.channel_id),
             nonce: String(r.nonce),
             amount: String(r.dest_amount ?? r.amount ?? '0'),
@@ -71,6 +90,8 @@ const buildIterator = (
               r.destination_block_height != null ? Number(r.destination_block_height) : null,
             dest_block_hash:
               r.destination_block_hash != null ? String(r.destination_block_hash) : null,
+            source_timestamp: r.source_timestamp != null ? Number(r.source_timestamp) : null,
+            dest_timestamp: r.dest_timestamp != null ? Number(r.dest_timestamp) : null,
           }
         }
       } finally {
@@ -88,76 +109,173 @@ const buildIterator = (
   return mapped
 }
 
-const main = async () => {
-  const d2cSql = `
-    SELECT
-      i.from_address,
-      i.channel_id,
-      i.nonce,
-      i.amount,
-      i.source_block_height,
-      i.source_block_hash,
-      i.source_extrinsic_index,
-      ds.amount AS dest_amount,
-      ds.destination_block_height,
-      ds.destination_block_hash,
-      CASE WHEN ds.destination_chain IS NOT NULL THEN 1 ELSE NULL END AS dest_present
-    FROM source_inits i
-    LEFT JOIN destination_successes ds
-      ON ds.channel_id = i.channel_id AND ds.nonce = i.nonce AND ds.destination_chain = 'consensus'
-    WHERE i.source_chain = 'domain'
-  `
-
-  const c2dSql = `
-    SELECT
-      i.from_address,
-      i.channel_id,
-      i.nonce,
-      i.amount,
-      i.source_block_height,
-      i.source_block_hash,
-      i.source_extrinsic_index,
-      ds.amount AS dest_amount,
-      ds.destination_block_height,
-      ds.destination_block_hash,
-      CASE WHEN ds.destination_chain IS NOT NULL THEN 1 ELSE NULL END AS dest_present
-    FROM source_inits i
-    LEFT JOIN destination_successes ds
-      ON ds.channel_id = i.channel_id AND ds.nonce = i.nonce AND ds.destination_chain = 'domain'
-    WHERE i.source_chain = 'consensus'
-  `
-
-  const d2cRows = buildIterator(d2cSql, [], 'd2c')
-  const c2dRows = buildIterator(c2dSql, [], 'c2d')
+const concatIterables = <T>(parts: Iterable<T>[]): Iterable<T> => ({
+  [Symbol.iterator]: function* () {
+    for (const part of parts) yield* part
+  },
+})
+
+export interface MatchSummary {
+  output_dir: string
+  db_path: string
+  routes: { source_chain: ChainKey; destination_chain: ChainKey; direction: Direction }[]
+  files: { d2c_transfers: string; c2d_transfers: string; d2d_transfers?: string }
+  counts: { d2c: number; c2d: number; d2d: number; total: number }
+  late_delivery_policy: LateDeliveryPolicy
+  manifest_file: string | null
+}
+
+// One route = one (source chain, destination chain) pair; the destination success must come
+// from the init's destination chain and name the init's source chain. Parameters: destination
+// end height (null = no limit), source chain, destination chain, source window start and end
+const ROUTE_SQL = `
+  SELECT
+    i.source_chain,
+    i.dst_chain,
+    i.from_address,
+    i.from_address_type,
+    i.to_address,
+    i.attribution_path,
+    i.channel_id,
+    i.nonce,
+    i.amount,
+    i.source_block_height,
+    i.source_block_hash,
+    i.source_extrinsic_index,
+    ds.amount AS dest_amount,
+    ds.destination_block_height,
+    ds.destination_block_hash,
+    CASE
+      WHEN ds.destination_chain IS NOT NULL
+        AND ds.destination_block_height <= COALESCE(?, ds.destination_block_height)
+      THEN 1 ELSE NULL
+    END AS dest_present,
+    st.timestamp_ms AS source_timestamp,
+    dt.timestamp_ms AS dest_timestamp
+  FROM source_inits i
+  LEFT JOIN destination_successes ds
+    ON ds.channel_id = i.channel_id AND ds.nonce = i.nonce
+    AND ds.destination_chain = i.dst_chain AND ds.src_chain = i.source_chain
+  LEFT JOIN block_timestamps st
+    ON st.chain = i.source_chain AND st.block_height = i.source_block_height
+  LEFT JOIN block_timestamps dt
+    ON dt.chain = ds.destination_chain AND dt.block_height = ds.destination_block_height
+  WHERE i.source_chain = ? AND i.dst_chain = ?
+    AND i.source_block_height BETWEEN COALESCE(?, i.source_block_height)
+      AND COALESCE(?, i.source_block_height)
+  ORDER BY i.source_block_height, i.channel_id, i.nonce
+`
+
+const heightOrNull = (height: number): number | null => (Number.isNaN(height) ? null : height)
+
+export interface RouteWindow {
+  /** Source heights an init must fall in; null = unbounded */
+  source_start: number | null
+  source_end: number | null
+  /** Last destination height a delivery counts at; null = no limit */
+  dest_end: number | null
+}
+
+/**
+ * Inits must fall inside the source chain's window; under the `exclude` policy deliveries
+ * after the destination chain's end height do not count
+ */
+export const routeWindow = (
+  source: ChainKey,
+  destination: ChainKey,
+  policy: LateDeliveryPolicy,
+): RouteWindow => {
+  const src = getChainConfig(source)
+  return {
+    source_start: heightOrNull(src.start),
+    source_end: heightOrNull(src.end),
+    dest_end: policy === 'exclude' ? heightOrNull(getChainConfig(destination).end) : null,
+  }
+}
+
+const routeParams = (source: ChainKey, destination: ChainKey, policy: LateDeliveryPolicy) => {
+  const w = routeWindow(source, destination, policy)
+  return [w.dest_end, source, destination, w.source_start, w.source_end]
+}
+
+const listRoutes = (): { source_chain: ChainKey; dst_chain: ChainKey }[] => {
+  const db = openDb(DB_PATH)
+  try {
+    return db
+      .prepare(
+        'SELECT DISTINCT source_chain, dst_chain FROM source_inits ORDER BY source_chain, dst_chain',
+      )
+      .all() as { source_chain: ChainKey; dst_chain: ChainKey }[]
+  } finally {
+    db.close()
+  }
+}
+
+export const runMatch = async (): Promise<MatchSummary> => {
+  const { policy } = lateDeliveryFromEnv()
+  const routes = listRoutes().map((r) => ({
+    source_chain: r.source_chain,
+    destination_chain: r.dst_chain,
+    direction: directionOf(r.source_chain, r.dst_chain),
+  }))
+  const rowsFor = (direction: Direction) =>
+    concatIterables(
+      routes
+        .filter((r) => r.direction === direction)
+        .map((r) =>
+          buildIterator(
+            ROUTE_SQL,
+            routeParams(r.source_chain, r.destination_chain, policy),
+            direction,
+          ),
+        ),
+    )
 
   const d2cPath = path.resolve(OUTPUT_DIR, 'd2c_transfers.ndjson')
   const c2dPath = path.resolve(OUTPUT_DIR, 'c2d_transfers.ndjson')
+  const d2dPath = path.resolve(OUTPUT_DIR, 'd2d_transfers.ndjson')
+
+  const d2cCount = writeNdjson(d2cPath, rowsFor('d2c'))
+  const c2dCount = writeNdjson(c2dPath, rowsFor('c2d'))
+  // Domain → domain routes only exist with more than one domain in the registry
+  const hasD2d = routes.some((r) => r.direction === 'd2d')
+  const d2dCount = hasD2d ? writeNdjson(d2dPath, rowsFor('d2d')) : 0
+  if (!hasD2d) {
+    // Drop a stale file from an earlier run so counts does not pick it up
+    fs.rmSync(d2dPath, { force: true })
+  }
+  const manifestFile = manifestEnabled()
+    ? await writeMatchManifest(OUTPUT_DIR, DB_PATH, policy)
+    : null
+
+  return {
+    output_dir: OUTPUT_DIR,
+    db_path: DB_PATH,
+    routes,
+    files: {
+      d2c_transfers: d2cPath,
+      c2d_transfers: c2dPath,
+      ...(hasD2d ? { d2d_transfers: d2dPath } : {}),
+    },
+    counts: {
+      d2c: d2cCount,
+      c2d: c2dCount,
+      d2d: d2dCount,
+      total: d2cCount + c2dCount + d2dCount,
+    },
+    late_delivery_policy: policy,
+    manifest_file: manifestFile,
+  }
+}
 
-  const d2cCount = writeNdjson(d2cPath, d2cRows)
-  const c2dCount = writeNdjson(c2dPath, c2dRows)
-
-  console.log(
-    JSON.stringify(
-      {
-        output_dir: OUTPUT_DIR,
-        db_path: DB_PATH,
-        files: {
-          d2c_transfers: d2cPath,
-          c2d_transfers: c2dPath,
-        },
-        counts: {
-          d2c: d2cCount,
-          c2d: c2dCount,
-          total: d2cCount + c2dCount,
-        },
-      },
-      null,
-      2,
-    ),
-  )
+const main = async () => {
+  const summary = await runMatch()
+  console.log(JSON.stringify(summary, null, 2))
 }
 
-main().catch((err) => {
-  console.error(err)
-  process.exit(1)
-})
+if (require.main === module) {
+  main().catch((err) => {
+    console.error(err)
+    process.exit(1)
+  })
+}
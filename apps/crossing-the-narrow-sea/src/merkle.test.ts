@@ -0,0 +1,55 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { u8aToHex } from '@polkadot/util'
+import type { MerkleLeafData } from './merkle'
+import { buildMerkleTree, merkleLeaf, verifyMerkleProof } from './merkle'
+
+const dataOf = (i: number): MerkleLeafData => ({
+  public_key: u8aToHex(new Uint8Array(32).fill(i)),
+  d2c: i,
+  c2d: 2 * i,
+  d2d: 3 * i,
+  total: 6 * i,
+  eligible: { d2c: i, c2d: i, d2d: i, total: 3 * i },
+})
+
+const leafOf = (i: number) => merkleLeaf(dataOf(i))
+
+test('every leaf proves against the root, for even and odd tree sizes', () => {
+  for (const size of [1, 2, 3, 5, 8, 13]) {
+    const leaves = Array.from({ length: size }, (_, i) => leafOf(i + 1))
+    const tree = buildMerkleTree(leaves)
+    for (const leaf of leaves) {
+      assert.ok(verifyMerkleProof(leaf, tree.proof(leaf), tree.root), `size ${size}`)
+    }
+  }
+})
+
+test('the root does not depend on leaf order', () => {
+  const leaves = Array.from({ length: 7 }, (_, i) => leafOf(i + 1))
+  assert.equal(buildMerkleTree(leaves).root, buildMerkleTree([...leaves].reverse()).root)
+})
+
+test('a proof fails for another leaf, a changed count or another root', () => {
+  const leaves = Array.from({ length: 6 }, (_, i) => leafOf(i + 1))
+  const tree = buildMerkleTree(leaves)
+  const proof = tree.proof(leaves[0])
+  assert.equal(verifyMerkleProof(leaves[1], proof, tree.root), false)
+  const forged: MerkleLeafData[] = [
+    { ...dataOf(1), d2d: 4 },
+    { ...dataOf(1), eligible: { ...dataOf(1).eligible, d2d: 2 } },
+    { ...dataOf(1), eligible: { ...dataOf(1).eligible, total: 4 } },
+  ]
+  for (const data of forged) {
+    assert.equal(verifyMerkleProof(merkleLeaf(data), proof, tree.root), false)
+  }
+  assert.equal(verifyMerkleProof(leaves[0], proof, buildMerkleTree(leaves.slice(1)).root), false)
+})
+
+test('duplicate leaves and negative counts are rejected', () => {
+  assert.throws(() => buildMerkleTree([leafOf(1), leafOf(1)]), /duplicate/)
+  assert.throws(
+    () => merkleLeaf({ ...dataOf(1), eligible: { ...dataOf(1).eligible, c2d: -1 } }),
+    /non-negative/,
+  )
+})
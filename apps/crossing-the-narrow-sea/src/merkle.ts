@@ -0,0 +1,105 @@
+/**
+ * Merkle commitment over the per-wallet counts
+ *
+ * One leaf per wallet: keccak256(0x00 ‖ public key ‖ d2c ‖ c2d ‖ d2d ‖ total ‖ eligible d2c ‖
+ * eligible c2d ‖ eligible d2d ‖ eligible total), the key being the 32-byte account id (SS58
+ * wallets) or the 20-byte H160 (EVM wallets) and the counts u64 big-endian, so a leaf does not
+ * depend on the display prefix. Inner nodes are
+ * keccak256(0x01 ‖ lower child ‖ higher child): children are sorted, so a proof is just the
+ * list of sibling hashes. Leaves are sorted by hash and an unpaired node moves up unchanged.
+ */
+
+import { hexToU8a, u8aConcat, u8aToHex } from '@polkadot/util'
+import { keccakAsU8a } from '@polkadot/util-crypto'
+
+export interface MerkleLeafData {
+  public_key: string
+  d2c: number
+  c2d: number
+  d2d: number
+  total: number
+  /** Transfers passing the eligibility rules, the counts rewards are computed from */
+  eligible: { d2c: number; c2d: number; d2d: number; total: number }
+}
+
+export interface MerkleTree {
+  root: string
+  /** Leaf hashes in tree order */
+  leaves: string[]
+  /** Proof for a leaf hash */
+  proof: (leaf: string) => string[]
+}
+
+const LEAF_PREFIX = Uint8Array.of(0)
+const NODE_PREFIX = Uint8Array.of(1)
+
+const u64 = (value: number): Uint8Array => {
+  if (!Number.isSafeInteger(value) || value < 0) {
+    throw new Error(`merkle leaf counts must be non-negative integers (got ${value})`)
+  }
+  const out = new Uint8Array(8)
+  new DataView(out.buffer).setBigUint64(0, BigInt(value))
+  return out
+}
+
+export const merkleLeaf = (data: MerkleLeafData): string =>
+  u8aToHex(
+    keccakAsU8a(
+      u8aConcat(
+        LEAF_PREFIX,
+        hexToU8a(data.public_key),
+        u64(data.d2c),
+        u64(data.c2d),
+        u64(data.d2d),
+        u64(data.total),
+        u64(data.eligible.d2c),
+        u64(data.eligible.c2d),
+        u64(data.eligible.d2d),
+        u64(data.eligible.total),
+      ),
+    ),
+  )
+
+const compareHex = (a: string, b: string): number => (a < b ? -1 : a > b ? 1 : 0)
+
+const hashPair = (a: string, b: string): string => {
+  const [lo, hi] = compareHex(a, b) <= 0 ? [a, b] : [b, a]
+  return u8aToHex(keccakAsU8a(u8aConcat(NODE_PREFIX, hexToU8a(lo), hexToU8a(hi))))
+}
+
+export const buildMerkleTree = (leafHashes: string[]): MerkleTree => {
+  const leaves = [...leafHashes].sort(compareHex)
+  if (new Set(leaves).size !== leaves.length) throw new Error('duplicate merkle leaf')
+  const levels: string[][] = [leaves]
+  while (levels[levels.length - 1].length > 1) {
+    const level = levels[levels.length - 1]
+    const next: string[] = []
+    for (let i = 0; i < level.length; i += 2) {
+      next.push(i + 1 < level.length ? hashPair(level[i], level[i + 1]) : level[i])
+    }
+    levels.push(next)
+  }
+  const position = new Map(leaves.map((leaf, i) => [leaf, i]))
+
+  const proof = (leaf: string): string[] => {
+    let index = position.get(leaf)
+    if (index == null) throw new Error(`leaf ${leaf} is not in the tree`)
+    const siblings: string[] = []
+    for (const level of levels.slice(0, -1)) {
+      const sibling = index ^ 1
+      if (sibling < level.length) siblings.push(level[sibling])
+      index >>= 1
+    }
+    return siblings
+  }
+
+  // An empty tree commits to the hash of nothing
+  const root = levels[levels.length - 1][0] ?? u8aToHex(keccakAsU8a(new Uint8Array()))
+  return { root, leaves, proof }
+}
+
+/**
+ * Folds `proof` from `leaf` up and compares the result with `root`
+ */
+export const verifyMerkleProof = (leaf: string, proof: string[], root: string): boolean =>
+  proof.reduce(hashPair, leaf).toLowerCase() === root.toLowerCase()
@@ -0,0 +1,114 @@
+/**
+ * Token-bucket rate limiting of JSON-RPC requests, one bucket per endpoint
+ *
+ * Public RPC nodes throttle clients that exceed a request rate; waiting for a token before
+ * each `send` keeps a scan under that rate instead of collecting errors and backing off.
+ */
+
+import type { ProviderInterface } from '@polkadot/rpc-provider/types'
+
+export interface RateLimitOptions {
+  /** Sustained requests per second per endpoint */
+  ratePerSecond: number
+  /** Requests that may be sent at once after an idle period */
+  burst: number
+}
+
+export interface TokenBucket {
+  /** Resolves once a token is available and takes it */
+  take: () => Promise<void>
+}
+
+/**
+ * Parses `RPC_RATE_LIMIT` / `RPC_RATE_BURST`; returns undefined when unlimited
+ */
+export const rateLimitFromEnv = (): RateLimitOptions | undefined => {
+  const rate = Number(process.env.RPC_RATE_LIMIT || 0)
+  if (!Number.isFinite(rate) || rate < 0) {
+    throw new Error(`RPC_RATE_LIMIT must be a non-negative number (got ${rate})`)
+  }
+  if (rate === 0) return undefined
+  const burst = Number(process.env.RPC_RATE_BURST || Math.max(1, Math.ceil(rate)))
+  if (!Number.isInteger(burst) || burst < 1) {
+    throw new Error(`RPC_RATE_BURST must be a positive integer (got ${burst})`)
+  }
+  return { ratePerSecond: rate, burst }
+}
+
+export const createTokenBucket = (opts: RateLimitOptions): TokenBucket => {
+  let tokens = opts.burst
+  let refilledAt = Date.now()
+  // Waiters are served in order so no request starves
+  let queue: Promise<void> = Promise.resolve()
+
+  const refill = () => {
+    const now = Date.now()
+    tokens = Math.min(opts.burst, tokens + ((now - refilledAt) / 1000) * opts.ratePerSecond)
+    refilledAt = now
+  }
+
+  const takeNow = async (): Promise<void> => {
+    refill()
+    while (tokens < 1) {
+      const waitMs = Math.ceil(((1 - tokens) / opts.ratePerSecond) * 1000)
+      await new Promise((r) => setTimeout(r, waitMs))
+      refill()
+    }
+    tokens -= 1
+  }
+
+  return {
+    take: () => {
+      const turn = queue.then(takeNow)
+      queue = turn
+      return turn
+    },
+  }
+}
+
+/**
+ * Wraps a provider so every `send` first takes a token from the bucket of the endpoint it
+ * goes to (`endpointOf`, e.g. the WsProvider's current endpoint after a rotation)
+ */
+export const createRateLimitedProvider = (
+  inner: ProviderInterface,
+  opts: RateLimitOptions,
+  endpointOf: () => string,
+): ProviderInterface => {
+  const buckets = new Map<string, TokenBucket>()
+  const bucketFor = (endpoint: string): TokenBucket => {
+    let bucket = buckets.get(endpoint)
+    if (!bucket) {
+      bucket = createTokenBucket(opts)
+      buckets.set(endpoint, bucket)
+    }
+    return bucket
+  }
+
+  return {
+    get hasSubscriptions() {
+      return inner.hasSubscriptions
+    },
+    get isClonable() {
+      return false
+    },
+    get isConnected() {
+      return inner.isConnected
+    },
+    get stats() {
+      return inner.stats
+    },
+    clone: () => {
+      throw new Error('rate-limited provider cannot be cloned')
+    },
+    connect: () => inner.connect(),
+    disconnect: () => inner.disconnect(),
+    on: (type, sub) => inner.on(type, sub),
+    send: async <T = any>(method: string, params: unknown[], isCacheable?: boolean) => {
+      await bucketFor(endpointOf()).take()
+      return inner.send<T>(method, params, isCacheable)
+    },
+    subscribe: (type, method, params, cb) => inner.subscribe(type, method, params, cb),
+    unsubscribe: (type, method, id) => inner.unsubscribe(type, method, id),
+  }
+}
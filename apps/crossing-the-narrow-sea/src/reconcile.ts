@@ -0,0 +1,260 @@
+import 'dotenv/config'
+import * as fs from 'node:fs'
+import * as path from 'node:path'
+import { openDb } from './sqlite'
+import type { ChainKey, Direction } from './chains'
+import { directionOf } from './chains'
+import { routeWindow } from './match'
+import type { LateDeliveryPolicy } from './run-config'
+import { lateDeliveryFromEnv } from './run-config'
+
+// Reconciliation of everything `match` leaves out: one NDJSON file per category of
+// unmatched, failed or inconsistent transfer, plus a summary with counts per direction
+const OUTPUT_DIR = process.env.OUTPUT_DIR || 'exports'
+const DB_PATH = `${OUTPUT_DIR}/xdm.sqlite`
+const RECONCILE_DIR = path.join(OUTPUT_DIR, 'reconcile')
+
+export type ReconcileCategory =
+  | 'undelivered'
+  | 'out_of_window'
+  | 'late_delivery_excluded'
+  | 'unknown_source'
+  | 'amount_mismatch'
+  | 'ack_err'
+  | 'ack_ok_undelivered'
+
+interface ReconcileRow {
+  category: ReconcileCategory
+  direction: Direction
+  source_chain: ChainKey
+  destination_chain: ChainKey
+  channel_id: number
+  nonce: string
+  from: string | null
+  source_amount: string | null
+  dest_amount: string | null
+  source_block_height: number | null
+  source_block_hash: string | null
+  source_extrinsic_index: number | null
+  dest_block_height: number | null
+  dest_block_hash: string | null
+  ack_result: string | null
+  ack_block_height: number | null
+}
+
+export interface ReconcileSummary {
+  db_path: string
+  output_dir: string
+  late_delivery_policy: LateDeliveryPolicy
+  categories: Record<
+    ReconcileCategory,
+    { description: string; file: string; total: number; by_direction: Record<string, number> }
+  >
+  generated_at: string
+}
+
+const COLUMNS = `
+    i.from_address,
+    i.amount AS source_amount,
+    ds.amount AS dest_amount,
+    i.source_block_height,
+    i.source_block_hash,
+    i.source_extrinsic_index,
+    ds.destination_block_height,
+    ds.destination_block_hash,
+    a.result AS ack_result,
+    a.source_block_height AS ack_block_height
+`
+
+// Every stage is keyed by route (source chain, destination chain) and message id (channel, nonce)
+const joinDestination = (source: string) => `
+  LEFT JOIN destination_successes ds
+    ON ds.channel_id = ${source}.channel_id AND ds.nonce = ${source}.nonce
+    AND ds.destination_chain = ${source}.dst_chain AND ds.src_chain = ${source}.source_chain
+`
+const joinAck = (source: string) => `
+  LEFT JOIN source_acks a
+    ON a.channel_id = ${source}.channel_id AND a.nonce = ${source}.nonce
+    AND a.source_chain = ${source}.source_chain AND a.dst_chain = ${source}.dst_chain
+`
+const joinInit = (source: string) => `
+  LEFT JOIN source_inits i
+    ON i.channel_id = ${source}.channel_id AND i.nonce = ${source}.nonce
+    AND i.source_chain = ${source}.source_chain AND i.dst_chain = ${source}.dst_chain
+`
+
+// Match's window per route (temp table `route_windows`, filled by runReconcile)
+const joinWindow = (source: string) => `
+  JOIN route_windows w ON w.source_chain = ${source}.source_chain AND w.dst_chain = ${source}.dst_chain
+`
+const IN_WINDOW = `
+  i.source_block_height BETWEEN COALESCE(w.source_start, i.source_block_height)
+    AND COALESCE(w.source_end, i.source_block_height)
+`
+
+const CATEGORIES: Record<ReconcileCategory, { description: string; sql: string }> = {
+  undelivered: {
+    description: 'transfer initiated on the source chain, no destination success captured',
+    sql: `
+      SELECT i.source_chain, i.dst_chain AS destination_chain, i.channel_id, i.nonce, ${COLUMNS}
+      FROM source_inits i ${joinWindow('i')} ${joinDestination('i')} ${joinAck('i')}
+      WHERE ds.destination_chain IS NULL AND ${IN_WINDOW}
+    `,
+  },
+  out_of_window: {
+    description: "transfer initiated outside the source chain's window",
+    sql: `
+      SELECT i.source_chain, i.dst_chain AS destination_chain, i.channel_id, i.nonce, ${COLUMNS}
+      FROM source_inits i ${joinWindow('i')} ${joinDestination('i')} ${joinAck('i')}
+      WHERE NOT (${IN_WINDOW})
+    `,
+  },
+  late_delivery_excluded: {
+    description:
+      "delivered after the destination chain's end height (LATE_DELIVERY_POLICY=exclude)",
+    sql: `
+      SELECT i.source_chain, i.dst_chain AS destination_chain, i.channel_id, i.nonce, ${COLUMNS}
+      FROM source_inits i ${joinWindow('i')} ${joinDestination('i')} ${joinAck('i')}
+      WHERE ${IN_WINDOW} AND ds.destination_block_height > w.dest_end
+    `,
+  },
+  unknown_source: {
+    description: 'destination success with no transfer init captured on the source chain',
+    sql: `
+      SELECT ds.src_chain AS source_chain, ds.destination_chain, ds.channel_id, ds.nonce, ${COLUMNS}
+      FROM destination_successes ds
+      LEFT JOIN source_inits i
+        ON i.channel_id = ds.channel_id AND i.nonce = ds.nonce
+        AND i.source_chain = ds.src_chain AND i.dst_chain = ds.destination_chain
+      LEFT JOIN source_acks a
+        ON a.channel_id = ds.channel_id AND a.nonce = ds.nonce
+        AND a.source_chain = ds.src_chain AND a.dst_chain = ds.destination_chain
+      WHERE i.source_chain IS NULL
+    `,
+  },
+  amount_mismatch: {
+    description: 'delivered, but the source amount differs from the destination amount',
+    sql: `
+      SELECT i.source_chain, i.dst_chain AS destination_chain, i.channel_id, i.nonce, ${COLUMNS}
+      FROM source_inits i ${joinDestination('i')} ${joinAck('i')}
+      WHERE ds.destination_chain IS NOT NULL AND i.amount <> ds.amount
+    `,
+  },
+  ack_err: {
+    description: 'source chain recorded an Err transfer result',
+    sql: `
+      SELECT a.source_chain, a.dst_chain AS destination_chain, a.channel_id, a.nonce, ${COLUMNS}
+      FROM source_acks a ${joinInit('a')} ${joinDestination('a')}
+      WHERE a.result = 'Err'
+    `,
+  },
+  ack_ok_undelivered: {
+    description: 'source chain recorded an Ok transfer result, no destination success captured',
+    sql: `
+      SELECT a.source_chain, a.dst_chain AS destination_chain, a.channel_id, a.nonce, ${COLUMNS}
+      FROM source_acks a ${joinInit('a')} ${joinDestination('a')}
+      WHERE a.result = 'Ok' AND ds.destination_chain IS NULL
+    `,
+  },
+}
+
+const orNull = <T>(v: unknown, f: (x: unknown) => T): T | null => (v != null ? f(v) : null)
+
+const toRow = (category: ReconcileCategory, r: any): ReconcileRow => ({
+  category,
+  direction: directionOf(r.source_chain, r.destination_chain),
+  source_chain: String(r.source_chain),
+  destination_chain: String(r.destination_chain),
+  channel_id: Number(r.channel_id),
+  nonce: String(r.nonce),
+  from: orNull(r.from_address, String),
+  source_amount: orNull(r.source_amount, String),
+  dest_amount: orNull(r.dest_amount, String),
+  source_block_height: orNull(r.source_block_height, Number),
+  source_block_hash: orNull(r.source_block_hash, String),
+  source_extrinsic_index: orNull(r.source_extrinsic_index, Number),
+  dest_block_height: orNull(r.destination_block_height, Number),
+  dest_block_hash: orNull(r.destination_block_hash, String),
+  ack_result: orNull(r.ack_result, String),
+  ack_block_height: orNull(r.ack_block_height, Number),
+})
+
+/**
+ * Writes `${OUTPUT_DIR}/reconcile/<category>.ndjson` and `reconcile_summary.json`
+ */
+export const runReconcile = async (): Promise<ReconcileSummary> => {
+  fs.mkdirSync(RECONCILE_DIR, { recursive: true })
+  const { policy } = lateDeliveryFromEnv()
+  const db = openDb(DB_PATH)
+  const categories = {} as ReconcileSummary['categories']
+
+  try {
+    db.exec(`
+      CREATE TEMP TABLE route_windows (
+        source_chain TEXT NOT NULL,
+        dst_chain TEXT NOT NULL,
+        source_start INTEGER,
+        source_end INTEGER,
+        dest_end INTEGER,
+        PRIMARY KEY (source_chain, dst_chain)
+      )
+    `)
+    const insertWindow = db.prepare('INSERT INTO route_windows VALUES (?, ?, ?, ?, ?)')
+    const routes = db
+      .prepare('SELECT DISTINCT source_chain, dst_chain FROM source_inits')
+      .all() as { source_chain: ChainKey; dst_chain: ChainKey }[]
+    for (const { source_chain, dst_chain } of routes) {
+      const w = routeWindow(source_chain, dst_chain, policy)
+      insertWindow.run(source_chain, dst_chain, w.source_start, w.source_end, w.dest_end)
+    }
+
+    for (const [category, { description, sql }] of Object.entries(CATEGORIES) as [
+      ReconcileCategory,
+      { description: string; sql: string },
+    ][]) {
+      const file = path.resolve(RECONCILE_DIR, `${category}.ndjson`)
+      const byDirection: Record<string, number> = {}
+      let total = 0
+      const fd = fs.openSync(file, 'w')
+      try {
+        for (const r of db.prepare(sql).iterate() as Iterable<any>) {
+          const row = toRow(category, r)
+          fs.writeSync(fd, JSON.stringify(row) + '\n')
+          byDirection[row.direction] = (byDirection[row.direction] ?? 0) + 1
+          total += 1
+        }
+      } finally {
+        fs.closeSync(fd)
+      }
+      categories[category] = { description, file, total, by_direction: byDirection }
+    }
+  } finally {
+    db.close()
+  }
+
+  const summary: ReconcileSummary = {
+    db_path: DB_PATH,
+    output_dir: path.resolve(RECONCILE_DIR),
+    late_delivery_policy: policy,
+    categories,
+    generated_at: new Date().toISOString(),
+  }
+  fs.writeFileSync(
+    path.resolve(OUTPUT_DIR, 'reconcile_summary.json'),
+    JSON.stringify(summary, null, 2) + '\n',
+    'utf8',
+  )
+  return summary
+}
+
+const main = async () => {
+  const summary = await runReconcile()
+  console.log(JSON.stringify(summary, null, 2))
+}
+
+if (require.main === module) {
+  main().catch((err) => {
+    console.error(err)
+    process.exit(1)
+  })
+}
@@ -0,0 +1,44 @@
+import 'dotenv/config'
+import { runMatch } from './match'
+import { runCounts } from './counts'
+
+// Rolling match → counts refresh, meant to run alongside follow-mode capture
+const REFRESH_INTERVAL_MS = Math.max(1000, Number(process.env.REFRESH_INTERVAL_MS || 60000))
+
+const main = async () => {
+  let stopped = false
+  let wake = () => {}
+  process.once('SIGINT', () => {
+    stopped = true
+    wake()
+  })
+  // Waits for the next refresh; Ctrl+C ends the wait right away
+  const pause = (ms: number) =>
+    new Promise<void>((resolve) => {
+      const timer = setTimeout(resolve, ms)
+      wake = () => {
+        clearTimeout(timer)
+        resolve()
+      }
+    })
+
+  console.log(`[refresh] refreshing match and counts every ${REFRESH_INTERVAL_MS}ms`)
+  while (!stopped) {
+    try {
+      const match = await runMatch()
+      const { htmlFile, result } = await runCounts({ html: true })
+      console.log(
+        `[refresh] ${result.generated_at} d2c=${match.counts.d2c} c2d=${match.counts.c2d} leaderboard=${htmlFile}`,
+      )
+    } catch (err) {
+      console.warn(`[refresh] refresh failed: ${(err as Error)?.message || String(err)}`)
+    }
+    if (!stopped) await pause(REFRESH_INTERVAL_MS)
+  }
+  console.log('[refresh] stopped')
+}
+
+main().catch((err) => {
+  console.error(err)
+  process.exit(1)
+})
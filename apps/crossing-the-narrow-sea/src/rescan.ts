@@ -0,0 +1,31 @@
+import 'dotenv/config'
+import { runRescan } from './scan-runner'
+import { disconnectApi } from './chain'
+import { captureOptionsFromEnv } from './capture-options'
+import { getChainConfig } from './chains'
+
+// Re-captures exactly the heights --from..--to of one chain (e.g. ranges reported by `audit`)
+// without touching scan_progress or any other height.
+// Usage: yarn rescan --chain=<consensus|domain-N> --from=<height> --to=<height>
+const argValue = (name: string): string | undefined =>
+  process.argv.find((a) => a.startsWith(`--${name}=`))?.split('=')[1]
+
+const main = async () => {
+  const chain = argValue('chain')
+  const from = Number(argValue('from'))
+  const to = Number(argValue('to'))
+  if (!chain || Number.isNaN(from) || Number.isNaN(to)) {
+    throw new Error('usage: rescan --chain=<consensus|domain-N> --from=<height> --to=<height>')
+  }
+  const opts = captureOptionsFromEnv(getChainConfig(chain), false)
+  if (opts.rpcEndpoints.length === 0) throw new Error(`no RPC URL configured for ${chain}`)
+
+  const result = await runRescan({ ...opts, start: from, end: to })
+  await disconnectApi()
+  console.log(JSON.stringify(result, null, 2))
+}
+
+main().catch((err) => {
+  console.error(err)
+  process.exit(1)
+})
@@ -0,0 +1,56 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { allocateCapped, allocateProRata } from './rewards'
+
+const sum = (values: bigint[]) => values.reduce((s, v) => s + v, 0n)
+
+// Deterministic pseudo-random weights, so a failure reproduces
+const weightsFor = (seed: number, n: number): bigint[] => {
+  let x = seed
+  return Array.from({ length: n }, () => {
+    x = (x * 1103515245 + 12345) % 2 ** 31
+    return BigInt(x % 1000)
+  })
+}
+
+test('pro-rata pays out exactly the pool, within one unit of the exact share', () => {
+  for (let seed = 1; seed <= 50; seed++) {
+    const weights = weightsFor(seed, 1 + (seed % 17))
+    const total = sum(weights)
+    if (total === 0n) continue
+    const pool = 10n ** 18n + BigInt(seed)
+    const shares = allocateProRata(pool, weights)
+    assert.equal(sum(shares), pool, `seed ${seed}`)
+    shares.forEach((share, i) => {
+      const floor = (pool * weights[i]) / total
+      assert.ok(share === floor || share === floor + 1n, `seed ${seed} wallet ${i}`)
+    })
+  }
+})
+
+test('pro-rata gives nothing to zero weights and splits nothing without weight', () => {
+  assert.deepEqual(allocateProRata(10n, [0n, 1n, 0n]), [0n, 10n, 0n])
+  assert.deepEqual(allocateProRata(10n, [0n, 0n]), [0n, 0n])
+  // Leftover units go to the largest remainders, ties by order
+  assert.deepEqual(allocateProRata(10n, [1n, 1n, 1n]), [4n, 3n, 3n])
+})
+
+test('capped pays out exactly the pool and nobody exceeds the cap', () => {
+  for (let seed = 1; seed <= 50; seed++) {
+    const weights = weightsFor(seed, 10 + (seed % 7))
+    const eligible = weights.filter((w) => w > 0n).length
+    const capPercent = Math.max(10, Math.ceil(100 / eligible) + 1)
+    const pool = 1_000_000n + BigInt(seed)
+    const cap = (pool * BigInt(capPercent * 100)) / 10_000n
+    const shares = allocateCapped(pool, weights, capPercent)
+    assert.equal(sum(shares), pool, `seed ${seed}`)
+    shares.forEach((share, i) => {
+      assert.ok(share <= cap, `seed ${seed} wallet ${i}`)
+      if (weights[i] === 0n) assert.equal(share, 0n)
+    })
+  }
+})
+
+test('capped rejects a cap that cannot pay out the pool', () => {
+  assert.throws(() => allocateCapped(100n, [1n, 1n, 0n], 40), /cannot pay out/)
+})
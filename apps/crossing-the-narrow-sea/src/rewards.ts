@@ -0,0 +1,273 @@
+import 'dotenv/config'
+import * as fs from 'node:fs'
+import * as path from 'node:path'
+import type { Direction } from './chains'
+import type { AddressType } from './evm'
+import type { CombinedWalletEntry, CountsResult, TokenInfo } from './types'
+import { formatUnits, parseUnits } from './volume'
+
+// Reward allocation from counts_per_wallet.json: splits a pool (or one pool per direction)
+// over the wallets' eligible transfers and writes rewards.json plus a payout CSV.
+// Amounts are exact base-unit integers; every pool is paid out to the last unit
+const OUTPUT_DIR = process.env.OUTPUT_DIR || 'exports'
+
+export type RewardScheme = 'pro_rata' | 'tiered' | 'capped'
+
+type PoolName = Direction | 'all'
+
+/**
+ * Rewards config (`REWARDS_CONFIG`, JSON). Amounts are in token units
+ */
+export interface RewardsConfig {
+  scheme: RewardScheme
+  /** One pool over all directions… */
+  pool?: string
+  /** …or separate pools per direction (weights are that direction's transfers) */
+  pools?: Partial<Record<Direction, string>>
+  /** `tiered`: a wallet's weight is that of the highest tier it reaches; below all tiers gets 0 */
+  tiers?: { min_transfers: number; weight: number }[]
+  /** `capped`: maximum share of a pool per wallet, in percent; the excess goes to the others */
+  cap_percent?: number
+}
+
+export interface RewardAllocation {
+  wallet: string
+  address_type: AddressType
+  public_key: string
+  /** Base units */
+  amount: string
+  amount_formatted: string
+  /** Base units per pool */
+  pools: Partial<Record<PoolName, string>>
+}
+
+export interface RewardsResult {
+  config_file: string
+  config: RewardsConfig
+  token: TokenInfo
+  counts_file: string
+  pools: Partial<Record<PoolName, { amount: string; wallets: number; weight: string }>>
+  total: string
+  total_formatted: string
+  allocations: RewardAllocation[]
+  files: { json: string; csv: string }
+  generated_at: string
+}
+
+const validateConfig = (config: RewardsConfig): void => {
+  if (!['pro_rata', 'tiered', 'capped'].includes(config.scheme)) {
+    throw new Error(`rewards scheme must be pro_rata, tiered or capped (got ${config.scheme})`)
+  }
+  if ((config.pool == null) === (config.pools == null)) {
+    throw new Error('rewards config needs exactly one of pool or pools')
+  }
+  for (const name of Object.keys(config.pools ?? {})) {
+    if (!['d2c', 'c2d', 'd2d'].includes(name)) {
+      throw new Error(`rewards pools are keyed by d2c, c2d or d2d (got ${name})`)
+    }
+  }
+  if (config.scheme === 'tiered') {
+    const tiers = config.tiers ?? []
+    if (tiers.length === 0) throw new Error('tiered rewards need at least one tier')
+    for (const t of tiers) {
+      if (!Number.isInteger(t.min_transfers) || !Number.isInteger(t.weight) || t.weight < 0) {
+        throw new Error(`tier min_transfers and weight must be integers (got ${JSON.stringify(t)})`)
+      }
+    }
+  }
+  if (config.scheme === 'capped') {
+    const cap = config.cap_percent
+    if (cap == null || !(cap > 0 && cap <= 100)) {
+      throw new Error(`capped rewards need cap_percent in (0, 100] (got ${cap})`)
+    }
+  }
+}
+
+/**
+ * Splits `pool` in proportion to `weights` with the largest-remainder method: every share
+ * is rounded down and the leftover units go to the largest remainders (ties by order)
+ */
+export const allocateProRata = (pool: bigint, weights: bigint[]): bigint[] => {
+  const total = weights.reduce((s, w) => s + w, 0n)
+  if (total === 0n) return weights.map(() => 0n)
+  const shares = weights.map((w) => (pool * w) / total)
+  const remainders = weights.map((w, i) => ({ i, r: (pool * w) % total }))
+  let leftover = pool - shares.reduce((s, a) => s + a, 0n)
+  remainders.sort((a, b) => (b.r > a.r ? 1 : b.r < a.r ? -1 : a.i - b.i))
+  for (const { i } of remainders) {
+    if (leftover === 0n) break
+    shares[i] += 1n
+    leftover -= 1n
+  }
+  return shares
+}
+
+/**
+ * Pro-rata with a per-wallet ceiling: wallets above the cap are fixed at it and the rest of
+ * the pool is split again among the others until nobody exceeds it
+ */
+export const allocateCapped = (pool: bigint, weights: bigint[], capPercent: number): bigint[] => {
+  const cap = (pool * BigInt(Math.round(capPercent * 100))) / 10_000n
+  const eligible = weights.filter((w) => w > 0n).length
+  if (cap * BigInt(eligible) < pool) {
+    throw new Error(
+      `cap_percent ${capPercent} cannot pay out the pool: ${eligible} wallets × cap < pool`,
+    )
+  }
+  const shares = weights.map(() => 0n)
+  const capped = new Set<number>()
+  for (;;) {
+    const open = weights.map((w, i) => (capped.has(i) ? 0n : w))
+    const remaining = pool - cap * BigInt(capped.size)
+    const split = allocateProRata(remaining, open)
+    const over = split.map((s, i) => (s > cap ? i : -1)).filter((i) => i >= 0)
+    if (over.length === 0) {
+      split.forEach((s, i) => (shares[i] = capped.has(i) ? cap : s))
+      return shares
+    }
+    over.forEach((i) => capped.add(i))
+  }
+}
+
+const tierWeight = (transfers: number, tiers: NonNullable<RewardsConfig['tiers']>): bigint => {
+  const reached = tiers.filter((t) => transfers >= t.min_transfers)
+  return reached.length
+    ? BigInt(reached.sort((a, b) => b.min_transfers - a.min_transfers)[0].weight)
+    : 0n
+}
+
+const transfersFor = (entry: CombinedWalletEntry, pool: PoolName): number =>
+  pool === 'all' ? entry.eligible.total : entry.eligible[pool]
+
+const allocatePool = (
+  config: RewardsConfig,
+  pool: bigint,
+  entries: CombinedWalletEntry[],
+  name: PoolName,
+): { shares: bigint[]; weight: bigint } => {
+  const transfers = entries.map((e) => transfersFor(e, name))
+  const weights =
+    config.scheme === 'tiered'
+      ? transfers.map((n) => tierWeight(n, config.tiers ?? []))
+      : transfers.map((n) => BigInt(n))
+  const weight = weights.reduce((s, w) => s + w, 0n)
+  if (pool > 0n && weight === 0n) {
+    throw new Error(`no wallet qualifies for the ${name} pool`)
+  }
+  const shares =
+    config.scheme === 'capped'
+      ? allocateCapped(pool, weights, config.cap_percent as number)
+      : allocateProRata(pool, weights)
+  return { shares, weight }
+}
+
+const csvLine = (values: string[]): string =>
+  values.map((v) => (/[",\n]/.test(v) ? `"${v.replace(/"/g, '""')}"` : v)).join(',')
+
+/**
+ * Allocates the configured pools over `counts_per_wallet.json` and writes
+ * `${OUTPUT_DIR}/rewards.json` and `${OUTPUT_DIR}/rewards.csv`
+ */
+export const runRewards = async (): Promise<RewardsResult> => {
+  if (!process.env.REWARDS_CONFIG) {
+    throw new Error('REWARDS_CONFIG (rewards config JSON) is required')
+  }
+  const configFile = path.resolve(process.env.REWARDS_CONFIG)
+  const config = JSON.parse(fs.readFileSync(configFile, 'utf8')) as RewardsConfig
+  validateConfig(config)
+
+  const countsFile = path.resolve(OUTPUT_DIR, 'counts_per_wallet.json')
+  if (!fs.existsSync(countsFile)) throw new Error(`${countsFile} not found; run counts first`)
+  const counts = JSON.parse(fs.readFileSync(countsFile, 'utf8')) as CountsResult
+  const { token } = counts
+  const entries = counts.combined
+
+  const poolAmounts: [PoolName, bigint][] = config.pool
+    ? [['all', parseUnits(config.pool, token.decimals)]]
+    : Object.entries(config.pools ?? {}).map(([name, amount]) => [
+        name as Direction,
+        parseUnits(amount as string, token.decimals),
+      ])
+
+  const perWallet = entries.map(() => ({ amount: 0n, pools: {} as RewardAllocation['pools'] }))
+  const pools: RewardsResult['pools'] = {}
+  let total = 0n
+  for (const [name, amount] of poolAmounts) {
+    const { shares, weight } = allocatePool(config, amount, entries, name)
+    const paid = shares.reduce((s, a) => s + a, 0n)
+    if (paid !== amount) throw new Error(`${name} pool paid ${paid} instead of ${amount}`)
+    shares.forEach((share, i) => {
+      if (share === 0n) return
+      perWallet[i].amount += share
+      perWallet[i].pools[name] = share.toString()
+    })
+    pools[name] = {
+      amount: amount.toString(),
+      wallets: shares.filter((s) => s > 0n).length,
+      weight: weight.toString(),
+    }
+    total += amount
+  }
+
+  const allocations: RewardAllocation[] = entries
+    .map((entry, i) => ({ entry, ...perWallet[i] }))
+    .filter((a) => a.amount > 0n)
+    .sort((a, b) => (b.amount > a.amount ? 1 : b.amount < a.amount ? -1 : 0))
+    .map(({ entry, amount, pools }) => ({
+      wallet: entry.wallet,
+      address_type: entry.address_type,
+      public_key: entry.public_key,
+      amount: amount.toString(),
+      amount_formatted: formatUnits(amount, token.decimals),
+      pools,
+    }))
+
+  const jsonFile = path.resolve(OUTPUT_DIR, 'rewards.json')
+  const csvFile = path.resolve(OUTPUT_DIR, 'rewards.csv')
+  const result: RewardsResult = {
+    config_file: configFile,
+    config,
+    token,
+    counts_file: countsFile,
+    pools,
+    total: total.toString(),
+    total_formatted: formatUnits(total, token.decimals),
+    allocations,
+    files: { json: jsonFile, csv: csvFile },
+    generated_at: new Date().toISOString(),
+  }
+
+  fs.mkdirSync(path.dirname(jsonFile), { recursive: true })
+  fs.writeFileSync(jsonFile, JSON.stringify(result, null, 2) + '\n', 'utf8')
+  const csv = [
+    csvLine(['wallet', 'address_type', 'amount', `amount_${token.symbol.toLowerCase()}`]),
+    ...allocations.map((a) => csvLine([a.wallet, a.address_type, a.amount, a.amount_formatted])),
+  ]
+  fs.writeFileSync(csvFile, csv.join('\n') + '\n', 'utf8')
+  return result
+}
+
+const main = async () => {
+  const result = await runRewards()
+  console.log(
+    JSON.stringify(
+      {
+        scheme: result.config.scheme,
+        pools: result.pools,
+        total: result.total_formatted,
+        token: result.token.symbol,
+        wallets: result.allocations.length,
+        files: result.files,
+      },
+      null,
+      2,
+    ),
+  )
+}
+
+if (require.main === module) {
+  main().catch((err) => {
+    console.error(err)
+    process.exit(1)
+  })
+}
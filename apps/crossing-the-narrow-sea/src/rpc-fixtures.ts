@@ -0,0 +1,177 @@
+/**
+ * Record/replay JSON-RPC providers for offline, deterministic capture runs
+ *
+ * - record: wraps a live provider and appends every successful `send` response
+ *   (block hashes, blocks, storage reads such as system.events / eventSegments /
+ *   eventCount, runtime versions and metadata) to an NDJSON fixture archive
+ * - replay: answers `send` from that archive without any network access
+ *
+ * Responses are keyed by `method` + JSON params, so a replay must issue the same
+ * requests as the recording (same height range and event source).
+ */
+
+import * as fs from 'node:fs'
+import * as path from 'node:path'
+import type {
+  ProviderInterface,
+  ProviderInterfaceCallback,
+  ProviderInterfaceEmitCb,
+  ProviderInterfaceEmitted,
+} from '@polkadot/rpc-provider/types'
+
+export type FixtureMode = 'record' | 'replay'
+
+export interface FixtureOptions {
+  mode: FixtureMode
+  /** NDJSON archive path, one `{ method, params, result }` object per line */
+  path: string
+}
+
+interface FixtureEntry {
+  method: string
+  params: unknown[]
+  result: unknown
+}
+
+const fixtureKey = (method: string, params: unknown[]): string =>
+  `${method}:${JSON.stringify(params)}`
+
+const readArchive = (filePath: string): Map<string, unknown> => {
+  const entries = new Map<string, unknown>()
+  if (!fs.existsSync(filePath)) return entries
+  const lines = fs.readFileSync(filePath, 'utf8').split('\n')
+  for (const line of lines) {
+    const trimmed = line.trim()
+    if (trimmed === '') continue
+    const entry = JSON.parse(trimmed) as FixtureEntry
+    entries.set(fixtureKey(entry.method, entry.params), entry.result)
+  }
+  return entries
+}
+
+/**
+ * Parses `RPC_FIXTURE_MODE` / `RPC_FIXTURE_PATH`; returns undefined for live runs
+ */
+export const fixtureOptionsFromEnv = (
+  chain: string,
+  outputDir: string,
+): FixtureOptions | undefined => {
+  const mode = process.env.RPC_FIXTURE_MODE
+  if (!mode || mode === 'live') return undefined
+  if (mode !== 'record' && mode !== 'replay') {
+    throw new Error(`RPC_FIXTURE_MODE must be one of live, record, replay (got ${mode})`)
+  }
+  return {
+    mode,
+    path: process.env.RPC_FIXTURE_PATH || path.join(outputDir, 'fixtures', `${chain}.ndjson`),
+  }
+}
+
+export interface FixtureRecorder {
+  /** Appends a response unless the same request was recorded before */
+  record: (method: string, params: unknown[], result: unknown) => void
+  close: () => void
+}
+
+/**
+ * Opens the archive for appending; one recorder can back several providers (one per endpoint)
+ */
+export const createFixtureRecorder = (filePath: string): FixtureRecorder => {
+  const abs = path.resolve(filePath)
+  fs.mkdirSync(path.dirname(abs), { recursive: true })
+  const recorded = new Set(readArchive(abs).keys())
+  const fd = fs.openSync(abs, 'a')
+  let closed = false
+
+  return {
+    record: (method, params, result) => {
+      const key = fixtureKey(method, params)
+      if (closed || recorded.has(key)) return
+      recorded.add(key)
+      fs.writeSync(fd, JSON.stringify({ method, params, result }) + '\n')
+    },
+    close: () => {
+      if (closed) return
+      closed = true
+      fs.closeSync(fd)
+    },
+  }
+}
+
+/**
+ * Wraps a live provider and passes each `send` response to the recorder
+ */
+export const createRecordingProvider = (
+  inner: ProviderInterface,
+  recorder: FixtureRecorder,
+): ProviderInterface => {
+  const provider: ProviderInterface = {
+    get hasSubscriptions() {
+      return inner.hasSubscriptions
+    },
+    get isClonable() {
+      return false
+    },
+    get isConnected() {
+      return inner.isConnected
+    },
+    get stats() {
+      return inner.stats
+    },
+    clone: () => {
+      throw new Error('recording provider cannot be cloned')
+    },
+    connect: () => inner.connect(),
+    disconnect: () => inner.disconnect(),
+    on: (type: ProviderInterfaceEmitted, sub: ProviderInterfaceEmitCb) => inner.on(type, sub),
+    send: async <T = any>(method: string, params: unknown[], isCacheable?: boolean) => {
+      const result = await inner.send<T>(method, params, isCacheable)
+      recorder.record(method, params, result)
+      return result
+    },
+    subscribe: (type: string, method: string, params: unknown[], cb: ProviderInterfaceCallback) =>
+      inner.subscribe(type, method, params, cb),
+    unsubscribe: (type: string, method: string, id: number | string) =>
+      inner.unsubscribe(type, method, id),
+  }
+  return provider
+}
+
+/**
+ * Serves `send` from a recorded archive; subscriptions are not supported
+ */
+export const createReplayProvider = (filePath: string): ProviderInterface => {
+  const abs = path.resolve(filePath)
+  if (!fs.existsSync(abs)) {
+    throw new Error(`fixture archive not found: ${abs}`)
+  }
+  const entries = readArchive(abs)
+  console.info({ fixture: abs, responses: entries.size }, 'replaying rpc fixture')
+
+  const provider: ProviderInterface = {
+    hasSubscriptions: false,
+    isClonable: false,
+    isConnected: true,
+    clone: () => {
+      throw new Error('replay provider cannot be cloned')
+    },
+    connect: async () => undefined,
+    disconnect: async () => undefined,
+    on: () => () => undefined,
+    send: async <T = any>(method: string, params: unknown[]) => {
+      const key = fixtureKey(method, params)
+      if (!entries.has(key)) {
+        // Retrying cannot help: the response was never recorded
+        throw Object.assign(new Error(`fixture miss: ${method} ${JSON.stringify(params)}`), {
+          retryable: false,
+        })
+      }
+      return entries.get(key) as T
+    },
+    subscribe: async (_type: string, method: string) => {
+      throw new Error(`replay provider does not support subscriptions (${method})`)
+    },
+    unsubscribe: async () => false,
+  }
+  return provider
+}
@@ -0,0 +1,158 @@
+/**
+ * Pool of API connections, one per RPC endpoint
+ *
+ * `WsProvider` given several endpoints talks to one of them and only moves on when it fails.
+ * The pool keeps a connection to every endpoint and sends each unit of work (e.g. fetching
+ * one block) to the available endpoint with the fewest requests in flight. An endpoint that
+ * fails `maxErrors` times in a row is taken out of rotation for `cooldownMs`; afterwards it
+ * is tried again, and a single further error takes it out again.
+ */
+
+import type { ApiPromise } from '@polkadot/api'
+
+export interface PoolOptions {
+  /** Consecutive errors that take an endpoint out of rotation */
+  maxErrors: number
+  cooldownMs: number
+}
+
+export interface PoolMemberInput {
+  endpoint: string
+  api: ApiPromise
+}
+
+export interface EndpointStats {
+  endpoint: string
+  healthy: boolean
+  requests: number
+  errors: number
+  /** Times the endpoint was taken out of rotation */
+  ejections: number
+  latency_ms: number | null
+}
+
+export interface ApiPool {
+  /** Connection for chain-wide calls such as the finalized head and subscriptions */
+  primary: () => ApiPromise
+  /** Runs `fn` against the least busy available endpoint and records the outcome */
+  run: <T>(fn: (api: ApiPromise) => Promise<T>) => Promise<T>
+  stats: () => EndpointStats[]
+  apis: () => ApiPromise[]
+}
+
+interface PoolMember extends PoolMemberInput {
+  isReady: boolean
+  inFlight: number
+  requests: number
+  errors: number
+  consecutiveErrors: number
+  ejections: number
+  ejectedUntil: number
+  latencyTotalMs: number
+}
+
+/**
+ * Parses `RPC_ENDPOINT_MAX_ERRORS` / `RPC_ENDPOINT_COOLDOWN_MS`
+ */
+export const poolOptionsFromEnv = (): PoolOptions => {
+  const maxErrors = Number(process.env.RPC_ENDPOINT_MAX_ERRORS || 3)
+  const cooldownMs = Number(process.env.RPC_ENDPOINT_COOLDOWN_MS || 30000)
+  if (!Number.isInteger(maxErrors) || maxErrors < 1) {
+    throw new Error(`RPC_ENDPOINT_MAX_ERRORS must be a positive integer (got ${maxErrors})`)
+  }
+  if (!Number.isFinite(cooldownMs) || cooldownMs < 0) {
+    throw new Error(`RPC_ENDPOINT_COOLDOWN_MS must be a non-negative number (got ${cooldownMs})`)
+  }
+  return { maxErrors, cooldownMs }
+}
+
+export const createApiPool = (inputs: PoolMemberInput[], opts: PoolOptions): ApiPool => {
+  if (inputs.length === 0) throw new Error('RPC pool needs at least one endpoint')
+  const members: PoolMember[] = inputs.map((input) => ({
+    ...input,
+    isReady: false,
+    inFlight: 0,
+    requests: 0,
+    errors: 0,
+    consecutiveErrors: 0,
+    ejections: 0,
+    ejectedUntil: 0,
+    latencyTotalMs: 0,
+  }))
+  // An endpoint joins the rotation once its API is initialized, also if that happens late
+  for (const m of members) {
+    const markReady = () => {
+      m.isReady = true
+    }
+    m.api.on('ready', markReady)
+    void m.api.isReady.then(markReady)
+  }
+  // Rotates the starting point so equally busy endpoints take turns
+  let cursor = 0
+
+  const connected = (m: PoolMember) => m.isReady && m.api.isConnected
+  const healthy = (m: PoolMember, now: number) => connected(m) && m.ejectedUntil <= now
+
+  const pick = (): PoolMember => {
+    const now = Date.now()
+    let best: PoolMember | null = null
+    for (let i = 0; i < members.length; i++) {
+      const m = members[(cursor + i) % members.length]
+      if (healthy(m, now) && (best == null || m.inFlight < best.inFlight)) best = m
+    }
+    cursor = (cursor + 1) % members.length
+    if (best) return best
+    // Every connected endpoint is cooling down: use the one that comes back first
+    const fallback = members.filter(connected).sort((a, b) => a.ejectedUntil - b.ejectedUntil)[0]
+    if (fallback) return fallback
+    throw new Error('no RPC endpoint is connected')
+  }
+
+  const run = async <T>(fn: (api: ApiPromise) => Promise<T>): Promise<T> => {
+    const m = pick()
+    m.inFlight += 1
+    m.requests += 1
+    const startedAt = Date.now()
+    try {
+      const result = await fn(m.api)
+      m.latencyTotalMs += Date.now() - startedAt
+      m.consecutiveErrors = 0
+      return result
+    } catch (err) {
+      m.errors += 1
+      m.consecutiveErrors += 1
+      if (m.consecutiveErrors >= opts.maxErrors && m.ejectedUntil <= Date.now()) {
+        m.ejectedUntil = Date.now() + opts.cooldownMs
+        m.ejections += 1
+        console.warn(
+          `rpc pool: ${m.endpoint} out of rotation for ${opts.cooldownMs}ms after ${m.consecutiveErrors} consecutive errors`,
+        )
+      }
+      throw err
+    } finally {
+      m.inFlight -= 1
+    }
+  }
+
+  const primary = (): ApiPromise => {
+    const now = Date.now()
+    return (members.find((m) => healthy(m, now)) ?? members.find(connected) ?? members[0]).api
+  }
+
+  const stats = (): EndpointStats[] => {
+    const now = Date.now()
+    return members.map((m) => {
+      const successes = m.requests - m.errors
+      return {
+        endpoint: m.endpoint,
+        healthy: healthy(m, now),
+        requests: m.requests,
+        errors: m.errors,
+        ejections: m.ejections,
+        latency_ms: successes > 0 ? Math.round(m.latencyTotalMs / successes) : null,
+      }
+    })
+  }
+
+  return { primary, run, stats, apis: () => members.map((m) => m.api) }
+}
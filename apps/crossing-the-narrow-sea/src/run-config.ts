@@ -0,0 +1,77 @@
+/**
+ * Run config: trial window resolved by `derive-window`, stored next to the capture output
+ *
+ * Domain windows are derived from the consensus window (the head domain block at the
+ * consensus start/end blocks) instead of being copied by hand. The chain registry falls
+ * back to these heights whenever the matching `*_START_HEIGHT` / `*_END_HEIGHT` variable
+ * is not set, so capture and match pick them up without further configuration.
+ */
+
+import * as fs from 'node:fs'
+import * as path from 'node:path'
+import type { ChainKey } from './chains'
+
+/**
+ * What to do with transfers initiated inside the window that land after the destination
+ * chain's end height:
+ * - include: count them; capture runs `grace_blocks` past each chain's end so they are seen
+ * - exclude: only count deliveries at or before the destination chain's end height
+ */
+export type LateDeliveryPolicy = 'include' | 'exclude'
+
+export interface LateDelivery {
+  policy: LateDeliveryPolicy
+  /** Extra blocks captured past each chain's end height (policy `include`) */
+  grace_blocks: number
+}
+
+export interface DerivedDomainWindow {
+  start: number
+  end: number
+  /** Consensus blocks and storage item the heights were read from */
+  derived_from: {
+    consensus_start_hash: string
+    consensus_end_hash: string
+    source: 'head_domain_number' | 'latest_confirmed_receipt'
+  }
+}
+
+export interface RunConfig {
+  consensus: { start: number; end: number }
+  domains: Record<ChainKey, DerivedDomainWindow>
+  late_delivery: LateDelivery
+  generated_at: string
+}
+
+export const runConfigPath = (env: typeof process.env = process.env): string =>
+  env.RUN_CONFIG_PATH || path.join(env.OUTPUT_DIR || 'exports', 'run_config.json')
+
+export const readRunConfig = (env: typeof process.env = process.env): RunConfig | null => {
+  const file = runConfigPath(env)
+  if (!fs.existsSync(file)) return null
+  return JSON.parse(fs.readFileSync(file, 'utf8')) as RunConfig
+}
+
+export const writeRunConfig = (file: string, config: RunConfig): void => {
+  fs.mkdirSync(path.dirname(path.resolve(file)), { recursive: true })
+  fs.writeFileSync(file, JSON.stringify(config, null, 2) + '\n', 'utf8')
+}
+
+/**
+ * Late-delivery policy: `LATE_DELIVERY_POLICY` / `LATE_DELIVERY_GRACE_BLOCKS`, then the run
+ * config, then `include` with no grace (capture stops at the end height)
+ */
+export const lateDeliveryFromEnv = (
+  env: typeof process.env = process.env,
+  runConfig: RunConfig | null = readRunConfig(env),
+): LateDelivery => {
+  const policy = env.LATE_DELIVERY_POLICY || runConfig?.late_delivery.policy || 'include'
+  if (policy !== 'include' && policy !== 'exclude') {
+    throw new Error(`LATE_DELIVERY_POLICY must be include or exclude (got ${policy})`)
+  }
+  const grace = Number(env.LATE_DELIVERY_GRACE_BLOCKS ?? runConfig?.late_delivery.grace_blocks ?? 0)
+  if (!Number.isInteger(grace) || grace < 0) {
+    throw new Error(`LATE_DELIVERY_GRACE_BLOCKS must be a non-negative integer (got ${grace})`)
+  }
+  return { policy, grace_blocks: policy === 'include' ? grace : 0 }
+}
@@ -0,0 +1,206 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { createHash } from 'node:crypto'
+import * as fs from 'node:fs'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import { disconnectApi } from './chain'
+import { CONSENSUS } from './chains'
+import type { RunScanOptions, ScanResult } from './scan-runner'
+import { runScan } from './scan-runner'
+import { openDb } from './sqlite'
+
+// Consensus blocks #1..#3 recorded with RPC_FIXTURE_MODE=record (see docs/requirements.md, Tests)
+const ARCHIVE = path.join(__dirname, 'fixtures', 'consensus-xdm.ndjson')
+
+const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'replay-test-'))
+test.after(() => fs.rmSync(tmpDir, { recursive: true, force: true }))
+
+const replay = async (
+  name: string,
+  range = { start: 1, end: 3 },
+): Promise<{ result: ScanResult; dbPath: string }> => {
+  const dbPath = path.join(tmpDir, `${name}.sqlite`)
+  const db = openDb(dbPath)
+  const opts: RunScanOptions = {
+    rpcEndpoints: [],
+    dbPath,
+    chain: CONSENSUS,
+    logPrefix: `[${name}]`,
+    ...range,
+    // Replay commits one block at a time whatever this says
+    blockConcurrency: 8,
+    minConcurrency: 1,
+    adaptiveConcurrency: true,
+    lookahead: 512,
+    retryBackoffMs: 10,
+    retryMaxBackoffMs: 10,
+    useSegments: false,
+    verifyCanonical: true,
+    follow: false,
+    followStallMs: 1000,
+    fixture: { mode: 'replay', path: ARCHIVE },
+    pool: { maxErrors: 3, cooldownMs: 1000 },
+    db,
+  }
+  try {
+    return { result: await runScan(opts), dbPath }
+  } finally {
+    await disconnectApi(CONSENSUS)
+    db.close()
+  }
+}
+
+const rowsOf = (dbPath: string, sql: string) => {
+  const db = openDb(dbPath)
+  try {
+    return db.prepare(sql).all()
+  } finally {
+    db.close()
+  }
+}
+
+test('replaying the recorded archive stores the captured XDM rows', async () => {
+  const { result, dbPath } = await replay('rows')
+  assert.deepEqual(result, {
+    chain: CONSENSUS,
+    from: 1,
+    to: 3,
+    blocks: 3,
+    rows: 16,
+    recaptured: 0,
+    last_processed: 3,
+  })
+
+  assert.deepEqual(
+    rowsOf(
+      dbPath,
+      `SELECT dst_chain, channel_id, nonce, from_address, to_address, attribution_path, amount,
+              source_block_height, source_extrinsic_index
+       FROM source_inits ORDER BY source_block_height, nonce`,
+    ),
+    [
+      {
+        dst_chain: 'domain-0',
+        channel_id: 0,
+        nonce: '1',
+        from_address: 'sueAXjn4193fEJjfgDAQphDodDotzChtcnruV9e4M1TcZWiVC',
+        to_address: 'sufoki2w26dXKMHSAcwPPHfgAbCvBSnK2PKBSTGJtx1vWjeBp',
+        attribution_path: 'transporter.transfer',
+        amount: '5000000000000000000',
+        source_block_height: 1,
+        source_extrinsic_index: 1,
+      },
+      {
+        dst_chain: 'domain-0',
+        channel_id: 0,
+        nonce: '2',
+        from_address: 'sucbhh5CrHs6B6LcApLSz3y4W6AztNs7e556BPZUjVgvGdYNy',
+        to_address: 'sudCquHw827MRVtneLfWRLYiBZRou6ZT5Lpqvqt5kmU15K2ea',
+        attribution_path: 'utility.batch[1] > transporter.transfer',
+        amount: '3000000000000000000',
+        source_block_height: 2,
+        source_extrinsic_index: 1,
+      },
+      {
+        dst_chain: 'domain-1',
+        channel_id: 2,
+        nonce: '7',
+        from_address: 'sucbhh5CrHs6B6LcApLSz3y4W6AztNs7e556BPZUjVgvGdYNy',
+        to_address: '0xabababababababababababababababababababab',
+        attribution_path: 'utility.batch[0] > transporter.transfer',
+        amount: '2000000000000000000',
+        source_block_height: 2,
+        source_extrinsic_index: 1,
+      },
+    ],
+  )
+  assert.deepEqual(
+    rowsOf(
+      dbPath,
+      'SELECT dst_chain, nonce, source_block_height FROM source_outbox_messages ORDER BY rowid',
+    ),
+    [
+      { dst_chain: 'domain-0', nonce: '1', source_block_height: 1 },
+      { dst_chain: 'domain-1', nonce: '7', source_block_height: 2 },
+      { dst_chain: 'domain-0', nonce: '2', source_block_height: 2 },
+    ],
+  )
+  assert.deepEqual(
+    rowsOf(dbPath, 'SELECT dst_chain, nonce, result FROM source_acks ORDER BY rowid'),
+    [
+      { dst_chain: 'domain-0', nonce: '1', result: 'Ok' },
+      { dst_chain: 'domain-1', nonce: '7', result: 'Err' },
+    ],
+  )
+  assert.deepEqual(
+    rowsOf(dbPath, 'SELECT dst_chain, nonce FROM source_outbox_responses ORDER BY rowid'),
+    [
+      { dst_chain: 'domain-0', nonce: '1' },
+      { dst_chain: 'domain-1', nonce: '7' },
+    ],
+  )
+  assert.deepEqual(
+    rowsOf(
+      dbPath,
+      'SELECT src_chain, nonce, amount, destination_block_height FROM destination_successes',
+    ),
+    [
+      {
+        src_chain: 'domain-0',
+        nonce: '9',
+        amount: '4000000000000000000',
+        destination_block_height: 2,
+      },
+    ],
+  )
+  assert.deepEqual(rowsOf(dbPath, 'SELECT src_chain, nonce FROM destination_inbox_responses'), [
+    { src_chain: 'domain-0', nonce: '9' },
+  ])
+  // The transfer event on the unsigned timestamp inherent has no sender to credit
+  assert.deepEqual(
+    rowsOf(dbPath, 'SELECT block_height, extrinsic_index, method, reason FROM event_failures'),
+    [
+      {
+        block_height: 3,
+        extrinsic_index: 0,
+        method: 'OutgoingTransferInitiated',
+        reason: 'unsigned_or_signer_unavailable',
+      },
+    ],
+  )
+  assert.deepEqual(
+    rowsOf(
+      dbPath,
+      `SELECT l.block_height, l.event_count, l.xdm_event_count, t.timestamp_ms
+       FROM block_ledger l JOIN block_timestamps t USING (chain, block_height, block_hash)
+       ORDER BY l.block_height`,
+    ),
+    [
+      { block_height: 1, event_count: 4, xdm_event_count: 2, timestamp_ms: 1760000006000 },
+      { block_height: 2, event_count: 8, xdm_event_count: 6, timestamp_ms: 1760000012000 },
+      { block_height: 3, event_count: 6, xdm_event_count: 5, timestamp_ms: 1760000018000 },
+    ],
+  )
+  assert.deepEqual(
+    rowsOf(dbPath, 'SELECT block_height, spec_name, spec_version FROM runtime_versions'),
+    [
+      { block_height: 1, spec_name: 'xdm-fixture', spec_version: 1 },
+      { block_height: 3, spec_name: 'xdm-fixture', spec_version: 1 },
+    ],
+  )
+})
+
+test('replays of the archive write identical databases', async () => {
+  const digest = (file: string) => createHash('sha256').update(fs.readFileSync(file)).digest('hex')
+  const first = await replay('first')
+  const second = await replay('second')
+  assert.equal(digest(second.dbPath), digest(first.dbPath))
+})
+
+test('a height missing from the archive fails the replay instead of retrying', async () => {
+  await assert.rejects(
+    replay('miss', { start: 1, end: 4 }),
+    /fixture miss: chain_getBlockHash \[4\]/,
+  )
+})
@@ -1,23 +1,449 @@
-import { getApi, getEventsAt } from './chain'
-import { openDb, getLastProcessedBlockHeight, setLastProcessedBlockHeight } from './sqlite'
-import { processXdmEvents } from './event-utils'
+import type Database from 'better-sqlite3'
+import type { ApiPromise } from '@polkadot/api'
+import { getApiPool, getEventsAt, getFinalizedHeadAndHeader } from './chain'
+import type { CaptureStore } from './sqlite'
+import {
+  openDb,
+  createCaptureStore,
+  getCapturedBlocks,
+  getLedgerEntries,
+  getRuntimeVersions,
+} from './sqlite'
+import { countXdmEvents, extractBlockTimestamp, processXdmEvents } from './event-utils'
+import type { FixtureOptions } from './rpc-fixtures'
+import type { RateLimitOptions } from './rate-limit'
+import type { ApiPool, PoolOptions } from './rpc-pool'
+import { createConcurrencyController, runScheduled } from './scheduler'
+import type { ConcurrencyController } from './scheduler'
+import type { ChainKey } from './chains'
 
 export interface RunScanOptions {
   rpcEndpoints: string[]
   dbPath: string
-  chain: 'domain' | 'consensus'
+  chain: ChainKey
   logPrefix: string
   start: number
   end: number
+  /** Most heights in flight; with `adaptiveConcurrency` the limit moves between min and this */
   blockConcurrency: number
+  minConcurrency: number
+  adaptiveConcurrency: boolean
+  /** Heights may start at most this far past the first uncommitted one */
+  lookahead: number
   retryBackoffMs: number
   retryMaxBackoffMs: number
   useSegments: boolean
+  verifyCanonical: boolean
+  /** Keep running after catch-up and capture each newly finalized block until `end` */
+  follow: boolean
+  /** Follow fails once no finalized head has arrived for this long, so it can be restarted */
+  followStallMs: number
+  /** Record RPC responses to, or replay them from, a local fixture archive */
+  fixture?: FixtureOptions
+  /** Token bucket per RPC endpoint */
+  rateLimit?: RateLimitOptions
+  /** When an endpoint is taken out of the connection pool's rotation */
+  pool: PoolOptions
+  /** Open handle to write to instead of opening `dbPath` (scans of several chains share one) */
+  db?: Database.Database
+  /** Called as the scan moves through its phases and after every committed block */
+  onProgress?: (progress: ScanProgress) => void
 }
 
-const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms))
+export type ScanPhase = 'capturing' | 'verifying' | 'following' | 'done'
 
-export const runScan = async (opts: RunScanOptions): Promise<void> => {
+export interface ScanProgress {
+  chain: ChainKey
+  phase: ScanPhase
+  /** Heights this run captures in the `capturing` phase */
+  from: number
+  to: number
+  /** Blocks committed so far, including re-captured and followed ones */
+  blocks: number
+  rows: number
+}
+
+export interface ScanResult {
+  chain: ChainKey
+  from: number
+  to: number
+  blocks: number
+  rows: number
+  /** Heights re-captured after the canonical check */
+  recaptured: number
+  /** Last height captured contiguously, null when nothing has been captured */
+  last_processed: number | null
+}
+
+interface BlockContext {
+  /** One connection per RPC endpoint; block fetches are spread across them */
+  pool: ApiPool
+  store: CaptureStore
+  chain: ChainKey
+  logPrefix: string
+  useSegments: boolean
+  /** Runs after every committed block */
+  onBlock: () => void
+}
+
+interface StopSignal {
+  requested: () => boolean
+  /** Resolves once stop has been requested */
+  promise: Promise<void>
+  dispose: () => void
+}
+
+// Ctrl+C in follow mode asks capture to stop after the blocks in flight have committed
+const onSigint = (): StopSignal => {
+  let requested = false
+  let dispose = () => {}
+  const promise = new Promise<void>((resolve) => {
+    const handler = () => {
+      requested = true
+      resolve()
+    }
+    process.once('SIGINT', handler)
+    dispose = () => process.off('SIGINT', handler)
+  })
+  return { requested: () => requested, promise, dispose }
+}
+
+// Resolves after `ms`, or as soon as stop is requested
+const pause = (ms: number, stop?: StopSignal) =>
+  new Promise<void>((resolve) => {
+    const timer = setTimeout(resolve, ms)
+    void stop?.promise.then(() => {
+      clearTimeout(timer)
+      resolve()
+    })
+  })
+
+/**
+ * Retries `fn` with exponential backoff. Once `stop` is requested the last error is thrown
+ * instead: the block is left for the next run, as progress is only written in its transaction.
+ */
+const withRetry = async <T>(
+  opts: Pick<RunScanOptions, 'logPrefix' | 'retryBackoffMs' | 'retryMaxBackoffMs'>,
+  label: string,
+  fn: () => Promise<T>,
+  stop?: StopSignal,
+): Promise<T> => {
+  let backoff = opts.retryBackoffMs
+  while (true) {
+    try {
+      return await fn()
+    } catch (err) {
+      if ((err as { retryable?: boolean })?.retryable === false) throw err
+      if (stop?.requested()) throw err
+      const msg = (err as Error)?.message || String(err)
+      console.warn(`${opts.logPrefix} error at ${label}: ${msg}. retrying in ${backoff}ms`)
+      await pause(backoff, stop)
+      if (stop?.requested()) throw err
+      backoff = Math.min(backoff * 2, opts.retryMaxBackoffMs)
+    }
+  }
+}
+
+interface FetchedBlock {
+  height: number
+  hash: string
+  extrinsics: any[]
+  events: any[]
+}
+
+/**
+ * Extra work committed together with a block's rows
+ */
+interface BlockCommit {
+  /** Delete whatever was stored for the height first (re-capture after a reorg) */
+  purgeFirst?: boolean
+  /** Runs inside the block's transaction, e.g. the progress update */
+  inTransaction?: () => void
+  /** Runs right after the commit, before any other block can be written */
+  onCommitted?: () => void
+}
+
+// All requests for one block go to the same endpoint
+const fetchBlock = (ctx: BlockContext, h: number): Promise<FetchedBlock> =>
+  ctx.pool.run(async (api) => {
+    const hash = await api.rpc.chain.getBlockHash(h)
+    const block = await api.rpc.chain.getBlock(hash)
+    const events: any[] = (await getEventsAt(api, hash, ctx.useSegments)) as any
+    return { height: h, hash: hash.toString(), extrinsics: block.block.extrinsics as any, events }
+  })
+
+const writeBlock = (ctx: BlockContext, block: FetchedBlock): void => {
+  const { store, chain, logPrefix } = ctx
+  const timestamp = extractBlockTimestamp(block.extrinsics)
+  if (timestamp != null) {
+    store.upsertBlockTimestamp({
+      chain,
+      block_height: block.height,
+      block_hash: block.hash,
+      timestamp_ms: timestamp,
+    })
+  }
+
+  processXdmEvents({
+    store,
+    chain,
+    events: block.events,
+    extrinsics: block.extrinsics,
+    blockHeight: block.height,
+    blockHash: block.hash,
+    logPrefix,
+  })
+
+  store.upsertLedgerEntry({
+    chain,
+    block_height: block.height,
+    block_hash: block.hash,
+    event_count: block.events.length,
+    xdm_event_count: countXdmEvents(block.events),
+  })
+}
+
+/**
+ * Fetches block `h` and writes all of its rows in one transaction, so a block is either
+ * captured completely or not at all
+ */
+const captureBlock = async (ctx: BlockContext, h: number, commit: BlockCommit = {}) => {
+  const block = await fetchBlock(ctx, h)
+  if (h % 100 === 0) {
+    console.log(`${ctx.logPrefix} processing #${h}`)
+  }
+  ctx.store.inTransaction(() => {
+    if (commit.purgeFirst) ctx.store.purgeBlock(ctx.chain, h)
+    writeBlock(ctx, block)
+    commit.inTransaction?.()
+  })
+  commit.onCommitted?.()
+  ctx.onBlock()
+}
+
+/**
+ * Records the runtime version at `h` for the run manifest. Best effort: a failure (e.g. a
+ * fixture archive recorded without these requests) is logged and does not stop capture.
+ */
+const recordRuntimeVersion = async (ctx: BlockContext, h: number): Promise<void> => {
+  const { pool, store, chain, logPrefix } = ctx
+  try {
+    const { hash, version } = await pool.run(async (api) => {
+      const hash = await api.rpc.chain.getBlockHash(h)
+      return { hash, version: await api.rpc.state.getRuntimeVersion(hash) }
+    })
+    store.upsertRuntimeVersion({
+      chain,
+      block_height: h,
+      block_hash: hash.toString(),
+      spec_name: version.specName.toString(),
+      spec_version: version.specVersion.toNumber(),
+    })
+  } catch (err) {
+    console.warn(
+      `${logPrefix} could not record runtime version at #${h}: ${(err as Error)?.message || err}`,
+    )
+  }
+}
+
+/**
+ * Compares block hashes recorded in the ledger and referenced by stored rows against the
+ * canonical chain. Rows from orphaned blocks are purged and the affected heights are re-captured.
+ * Returns the number of heights that were re-captured.
+ */
+const verifyCanonicalBlocks = async (
+  ctx: BlockContext,
+  opts: RunScanOptions,
+  from: number,
+  to: number,
+): Promise<number> => {
+  const { pool, store, chain, logPrefix } = ctx
+  const captured = [
+    ...getLedgerEntries(store.db, chain, from, to).map((e) => ({
+      height: e.block_height,
+      hash: e.block_hash,
+    })),
+    ...getCapturedBlocks(store.db, chain, from, to),
+  ]
+  const byHeight = new Map<number, Set<string>>()
+  for (const { height, hash } of captured) {
+    const hashes = byHeight.get(height) ?? new Set<string>()
+    hashes.add(hash)
+    byHeight.set(height, hashes)
+  }
+  const heights = [...byHeight.keys()].sort((a, b) => a - b)
+  console.log(`${logPrefix} verifying ${heights.length} captured blocks against canonical chain`)
+
+  const orphaned: number[] = []
+  let cursor = 0
+  const checker = async () => {
+    while (cursor < heights.length) {
+      const h = heights[cursor++]
+      const canonical = await withRetry(opts, `canonical #${h}`, () =>
+        pool.run(async (api) => (await api.rpc.chain.getBlockHash(h)).toString()),
+      )
+      const stored = byHeight.get(h) as Set<string>
+      if (stored.size !== 1 || !stored.has(canonical)) {
+        console.warn(
+          `${logPrefix} orphaned block at #${h}: stored=${[...stored].join(',')} canonical=${canonical}`,
+        )
+        orphaned.push(h)
+      }
+    }
+  }
+  await Promise.all(Array.from({ length: opts.blockConcurrency }, () => checker()))
+
+  for (const h of orphaned.sort((a, b) => a - b)) {
+    await withRetry(opts, `#${h}`, () => captureBlock(ctx, h, { purgeFirst: true }))
+  }
+  return orphaned.length
+}
+
+/**
+ * Subscribes to finalized heads and captures blocks sequentially from `fromHeight`.
+ * Resolves once `end` has been captured, or on `stop` once the block in flight has committed.
+ * The subscription moves to another endpoint when its connection drops, and follow rejects
+ * when no head arrives for `followStallMs`.
+ */
+const followFinalized = (
+  ctx: BlockContext,
+  opts: RunScanOptions,
+  fromHeight: number,
+  stop: StopSignal,
+) => {
+  const { pool, store, chain, logPrefix } = ctx
+  let next = fromHeight
+  let target = fromHeight - 1
+  let stopping = false
+  let draining: Promise<void> | null = null
+
+  return new Promise<void>((resolve, reject) => {
+    let subscribed: ApiPromise | null = null
+    let unsubscribe: (() => void) | null = null
+    let stallTimer: ReturnType<typeof setTimeout> | undefined
+
+    const unsubscribeHeads = () => {
+      try {
+        unsubscribe?.()
+      } catch (err) {
+        console.warn(`${logPrefix} finalized head unsubscribe failed: ${(err as Error)?.message}`)
+      }
+      unsubscribe = null
+      subscribed = null
+    }
+
+    const finish = async (err?: unknown) => {
+      if (stopping) return
+      stopping = true
+      clearTimeout(stallTimer)
+      for (const api of pool.apis()) api.off('disconnected', onDisconnected)
+      unsubscribeHeads()
+      await draining
+      if (err !== undefined) {
+        reject(err)
+        return
+      }
+      console.log(`${logPrefix} follow stopped at #${next - 1}`)
+      resolve()
+    }
+
+    const capturePending = async () => {
+      while (!stopping && next <= Math.min(target, opts.end)) {
+        const h = next
+        await withRetry(
+          opts,
+          `#${h}`,
+          () =>
+            captureBlock(ctx, h, {
+              inTransaction: () => store.setLastProcessedBlockHeight(chain, h),
+            }),
+          stop,
+        )
+        next += 1
+      }
+    }
+
+    const drain = () => {
+      if (draining || stopping) return
+      draining = capturePending().then(
+        () => {
+          draining = null
+          if (next > opts.end) void finish()
+          // A head may have arrived while the last block was committing
+          else if (next <= target) drain()
+        },
+        (err) => {
+          draining = null
+          void finish(err)
+        },
+      )
+    }
+
+    const resetStallTimer = () => {
+      clearTimeout(stallTimer)
+      stallTimer = setTimeout(() => {
+        void finish(new Error(`no finalized head for ${opts.followStallMs}ms`))
+      }, opts.followStallMs)
+    }
+
+    const subscribe = () => {
+      const api = pool.primary()
+      subscribed = api
+      api.rpc.chain
+        .subscribeFinalizedHeads((header) => {
+          resetStallTimer()
+          target = header.number.toNumber()
+          drain()
+        })
+        .then((unsub) => {
+          if (stopping || subscribed !== api) unsub()
+          else unsubscribe = unsub
+        })
+        .catch((err) => finish(err))
+    }
+
+    // Another connected endpoint takes over; with none, the provider resubscribes on reconnect
+    const onDisconnected = () => {
+      if (stopping || subscribed?.isConnected !== false) return
+      const fallback = pool.primary()
+      if (fallback === subscribed || !fallback.isConnected) return
+      console.warn(`${logPrefix} finalized head subscription lost; subscribing on another endpoint`)
+      unsubscribeHeads()
+      subscribe()
+    }
+
+    console.log(`${logPrefix} following finalized heads from #${fromHeight}`)
+    void stop.promise.then(() => finish())
+    for (const api of pool.apis()) api.on('disconnected', onDisconnected)
+    resetStallTimer()
+    subscribe()
+  })
+}
+
+// Replays commit one block at a time, so rows get the same insert order on every run
+const concurrencyFor = (opts: RunScanOptions): ConcurrencyController => {
+  const max = opts.fixture?.mode === 'replay' ? 1 : opts.blockConcurrency
+  return createConcurrencyController({
+    min: Math.min(opts.minConcurrency, max),
+    max,
+    initial: max,
+    adaptive: opts.adaptiveConcurrency,
+  })
+}
+
+const logScanStats = (logPrefix: string, concurrency: ConcurrencyController, pool: ApiPool) => {
+  const { limit, lowest, highest, latency_ms } = concurrency.stats()
+  console.log(
+    `${logPrefix} concurrency ${limit} (range ${lowest}..${highest}), block latency ${latency_ms ?? '-'}ms`,
+  )
+  for (const e of pool.stats()) {
+    console.log(
+      `${logPrefix} endpoint ${e.endpoint}: ${e.requests} requests, ${e.errors} errors, ${e.ejections} times out of rotation, latency ${e.latency_ms ?? '-'}ms${e.healthy ? '' : ' (unhealthy)'}`,
+    )
+  }
+}
+
+export const runScan = async (opts: RunScanOptions): Promise<ScanResult> => {
   const {
     rpcEndpoints,
     dbPath,
@@ -26,72 +452,202 @@ export const runScan = async (opts: RunScanOptions): Promise<void> => {
     start,
     end,
     blockConcurrency,
-    retryBackoffMs,
-    retryMaxBackoffMs,
     useSegments,
+    verifyCanonical,
+    follow,
+    fixture,
+    rateLimit,
   } = opts
 
-  const api = await getApi(rpcEndpoints)
-  const db = openDb(dbPath)
+  if (follow && fixture?.mode === 'replay') {
+    throw new Error(
+      'follow mode needs live finalized-head subscriptions and cannot replay fixtures',
+    )
+  }
 
-  const resumeFrom = getLastProcessedBlockHeight(db, chain)
+  const pool = await getApiPool(chain, rpcEndpoints, opts.pool, fixture, rateLimit)
+  const db = opts.db ?? openDb(dbPath)
+  const store = createCaptureStore(db)
+  let phase: ScanPhase = 'capturing'
+  let range = { from: start, to: end }
+  let blocks = 0
+  const report = () =>
+    opts.onProgress?.({ chain, phase, ...range, blocks, rows: store.rowsWritten() })
+  const enter = (next: ScanPhase) => {
+    phase = next
+    report()
+  }
+  const onBlock = () => {
+    blocks += 1
+    report()
+  }
+  const ctx: BlockContext = { pool, store, chain, logPrefix, useSegments, onBlock }
+
+  // Only capture finalized blocks; anything above the finalized head may still be reorged
+  const { header } = await getFinalizedHeadAndHeader(pool.primary())
+  const finalizedHeight = header.number.toNumber()
+  const scanEnd = Math.min(end, finalizedHeight)
+  if (scanEnd < end && !follow) {
+    console.warn(
+      `${logPrefix} end #${end} is above finalized head #${finalizedHeight}; clamping to #${scanEnd}`,
+    )
+  }
+
+  const resumeFrom = store.getLastProcessedBlockHeight(chain)
   const scanStart = Math.max(start, resumeFrom ?? start)
-  const total = end - scanStart + 1
+  const total = scanEnd - scanStart + 1
   console.log(
-    `${logPrefix} capture start: heights ${scanStart}..${end} (total ${Math.max(total, 0)})`,
+    `${logPrefix} capture start: heights ${scanStart}..${scanEnd} (total ${Math.max(total, 0)})`,
   )
 
-  // Lock-free work distribution: worker i handles scanStart + i, then + blockConcurrency, etc.
-  const totalWork = Math.max(end - scanStart + 1, 0)
+  const totalWork = Math.max(scanEnd - scanStart + 1, 0)
+  range = { from: scanStart, to: scanEnd }
+  enter('capturing')
   const processedFlags: boolean[] = Array.from({ length: totalWork }, () => false)
   let nextToCommit = scanStart
 
-  const advanceCommit = (): void => {
-    while (nextToCommit <= end) {
-      const idx = nextToCommit - scanStart
-      if (!processedFlags[idx]) break
-      setLastProcessedBlockHeight(db, chain, nextToCommit)
-      nextToCommit += 1
-    }
+  // First height not yet captured contiguously, counting `h` as captured
+  const contiguousAfter = (h: number): number => {
+    let next = nextToCommit
+    while (next <= scanEnd && (next === h || processedFlags[next - scanStart])) next += 1
+    return next
   }
 
-  const worker = async (workerId: number) => {
-    for (let h = scanStart + workerId; h <= end; h += blockConcurrency) {
-      let backoff = retryBackoffMs
-      while (true) {
-        try {
-          const hash = await api.rpc.chain.getBlockHash(h)
-          const block = await api.rpc.chain.getBlock(hash)
-          const events: any[] = (await getEventsAt(api, hash, useSegments)) as any
-          const extrinsics = block.block.extrinsics
-          if (h % 100 === 0) {
-            console.log(`${logPrefix} processing #${h}`)
-          }
-
-          processXdmEvents({
-            db,
-            chain,
-            events,
-            extrinsics,
-            blockHeight: h,
-            blockHash: hash.toString(),
-            logPrefix,
-          })
-
-          processedFlags[h - scanStart] = true
-          advanceCommit()
-          break
-        } catch (err) {
-          const msg = (err as Error)?.message || String(err)
-          console.warn(`${logPrefix} error at #${h}: ${msg}. retrying in ${backoff}ms`)
-          await sleep(backoff)
-          backoff = Math.min(backoff * 2, retryMaxBackoffMs)
-        }
-      }
+  const captureAndCommit = (h: number) =>
+    captureBlock(ctx, h, {
+      // Progress moves with the block that closes a gap, in that block's transaction
+      inTransaction: () => {
+        const next = contiguousAfter(h)
+        if (next > nextToCommit) store.setLastProcessedBlockHeight(chain, next - 1)
+      },
+      onCommitted: () => {
+        nextToCommit = contiguousAfter(h)
+        processedFlags[h - scanStart] = true
+      },
+    })
+
+  const concurrency = concurrencyFor(opts)
+  // Installed before catch-up, so Ctrl+C during it also leaves committed progress behind
+  const stop = follow ? onSigint() : null
+
+  const startedAt = Date.now()
+  try {
+    await runScheduled({
+      start: scanStart,
+      end: scanEnd,
+      frontier: () => nextToCommit,
+      lookahead: Math.max(opts.lookahead, blockConcurrency),
+      concurrency,
+      retryBackoffMs: opts.retryBackoffMs,
+      retryMaxBackoffMs: opts.retryMaxBackoffMs,
+      logPrefix,
+      run: captureAndCommit,
+      stop: stop?.promise,
+    })
+
+    const seconds = (Date.now() - startedAt) / 1000
+    const rows = store.rowsWritten()
+    const outcome = stop?.requested() ? `stopped at #${nextToCommit - 1} after` : 'complete:'
+    console.log(
+      `${logPrefix} capture ${outcome} ${blocks} blocks, ${rows} rows in ${seconds.toFixed(1)}s (${Math.round(rows / Math.max(seconds, 0.001))} rows/s)`,
+    )
+    logScanStats(logPrefix, concurrency, pool)
+
+    let recaptured = 0
+    if (verifyCanonical && !stop?.requested()) {
+      enter('verifying')
+      recaptured = await verifyCanonicalBlocks(ctx, opts, start, scanEnd)
+      console.log(`${logPrefix} canonical verification complete: re-captured ${recaptured} blocks`)
+    }
+
+    if (stop && !stop.requested() && scanEnd < end) {
+      enter('following')
+      await followFinalized(ctx, opts, Math.max(scanEnd + 1, scanStart), stop)
     }
+
+    // Window boundaries: the configured start and the last height captured so far
+    const last = store.getLastProcessedBlockHeight(chain)
+    for (const h of new Set([start, ...(last != null && last >= start ? [last] : [])])) {
+      await recordRuntimeVersion(ctx, h)
+    }
+
+    enter('done')
+    return {
+      chain,
+      from: scanStart,
+      to: scanEnd,
+      blocks,
+      rows: store.rowsWritten(),
+      recaptured,
+      last_processed: last,
+    }
+  } finally {
+    stop?.dispose()
+  }
+}
+
+/**
+ * Re-captures exactly the heights `opts.start`..`opts.end` (e.g. gaps reported by `audit`):
+ * every block is purged and written again, ledger entry included, in one transaction.
+ * `scan_progress` is not touched, so a later capture resumes where it left off.
+ */
+export const runRescan = async (opts: RunScanOptions): Promise<ScanResult> => {
+  const { chain, logPrefix, start, end } = opts
+  if (!Number.isInteger(start) || !Number.isInteger(end) || start < 0 || end < start) {
+    throw new Error(`rescan needs integer heights with from <= to (got ${start}..${end})`)
+  }
+
+  const pool = await getApiPool(chain, opts.rpcEndpoints, opts.pool, opts.fixture, opts.rateLimit)
+  const db = opts.db ?? openDb(opts.dbPath)
+  const store = createCaptureStore(db)
+  let blocks = 0
+  const ctx: BlockContext = {
+    pool,
+    store,
+    chain,
+    logPrefix,
+    useSegments: opts.useSegments,
+    onBlock: () => {
+      blocks += 1
+    },
+  }
+
+  const { header } = await getFinalizedHeadAndHeader(pool.primary())
+  const finalizedHeight = header.number.toNumber()
+  if (end > finalizedHeight) {
+    throw new Error(`rescan end #${end} is above the finalized head #${finalizedHeight}`)
   }
 
-  await Promise.all(Array.from({ length: blockConcurrency }, (_, workerId) => worker(workerId)))
+  // Purging a height drops its runtime version too; record those again afterwards
+  const versionHeights = getRuntimeVersions(db, chain)
+    .map((v) => v.block_height)
+    .filter((h) => h >= start && h <= end)
 
-  console.log(`${logPrefix} capture complete`)
+  console.log(`${logPrefix} rescan: heights ${start}..${end} (total ${end - start + 1})`)
+  const concurrency = concurrencyFor(opts)
+  await runScheduled({
+    start,
+    end,
+    // Heights do not advance progress, so there is no commit frontier to stay close to
+    frontier: () => start,
+    lookahead: end - start + 1,
+    concurrency,
+    retryBackoffMs: opts.retryBackoffMs,
+    retryMaxBackoffMs: opts.retryMaxBackoffMs,
+    logPrefix,
+    run: (h) => captureBlock(ctx, h, { purgeFirst: true }),
+  })
+  for (const h of versionHeights) await recordRuntimeVersion(ctx, h)
+  console.log(`${logPrefix} rescan complete: ${blocks} blocks, ${store.rowsWritten()} rows`)
+  logScanStats(logPrefix, concurrency, pool)
+
+  return {
+    chain,
+    from: start,
+    to: end,
+    blocks,
+    rows: store.rowsWritten(),
+    recaptured: blocks,
+    last_processed: store.getLastProcessedBlockHeight(chain),
+  }
 }
@@ -0,0 +1,140 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { createConcurrencyController, runScheduled } from './scheduler'
+
+test('the controller grows by one per round and halves on errors', () => {
+  const c = createConcurrencyController({ min: 1, max: 16, initial: 4, adaptive: true })
+  for (let i = 0; i < 3; i++) assert.equal(c.record(10, true), null)
+  assert.equal(c.record(10, true), 5)
+  assert.equal(c.record(10, false), 2)
+  assert.equal(c.record(10, false), 1)
+  // Never below min
+  assert.equal(c.record(10, false), null)
+  assert.deepEqual(c.stats(), { limit: 1, lowest: 1, highest: 5, latency_ms: 10 })
+})
+
+test('the controller steps down while latency is well above the best seen', () => {
+  const c = createConcurrencyController({ min: 1, max: 16, initial: 2, adaptive: true })
+  c.record(10, true)
+  assert.equal(c.record(10, true), 3)
+  let limit = c.limit()
+  for (let i = 0; i < 30; i++) limit = c.record(1000, true) ?? limit
+  assert.ok(limit < 3, `limit ${limit}`)
+})
+
+test('the controller stays within max and is fixed when not adaptive', () => {
+  const c = createConcurrencyController({ min: 1, max: 3, initial: 3, adaptive: true })
+  for (let i = 0; i < 20; i++) c.record(10, true)
+  assert.equal(c.limit(), 3)
+  const fixed = createConcurrencyController({ min: 1, max: 8, initial: 4, adaptive: false })
+  assert.equal(fixed.record(10, false), null)
+  assert.equal(fixed.limit(), 4)
+})
+
+test('runScheduled runs every height once, retries failures and respects the lookahead', async () => {
+  const done = new Set<number>()
+  const attempts = new Map<number, number>()
+  let maxAhead = 0
+  const frontier = () => {
+    let h = 1
+    while (done.has(h)) h++
+    return h
+  }
+  await runScheduled({
+    start: 1,
+    end: 60,
+    frontier,
+    lookahead: 8,
+    concurrency: createConcurrencyController({ min: 1, max: 4, initial: 4, adaptive: true }),
+    retryBackoffMs: 1,
+    retryMaxBackoffMs: 4,
+    logPrefix: '[test]',
+    run: async (h) => {
+      maxAhead = Math.max(maxAhead, h - frontier())
+      const attempt = (attempts.get(h) ?? 0) + 1
+      attempts.set(h, attempt)
+      await new Promise((r) => setTimeout(r, 1))
+      // Every seventh height fails twice before it succeeds
+      if (h % 7 === 0 && attempt < 3) throw new Error(`flaky #${h}`)
+      assert.equal(done.has(h), false, `#${h} ran after it succeeded`)
+      done.add(h)
+    },
+  })
+  assert.equal(done.size, 60)
+  assert.equal(attempts.get(14), 3)
+  assert.ok(maxAhead < 8, `ran ${maxAhead} heights past the frontier`)
+})
+
+test('runScheduled stops on an error that is not retryable', async () => {
+  await assert.rejects(
+    runScheduled({
+      start: 1,
+      end: 10,
+      frontier: () => 1,
+      lookahead: 10,
+      concurrency: createConcurrencyController({ min: 1, max: 1, initial: 1, adaptive: false }),
+      retryBackoffMs: 1,
+      retryMaxBackoffMs: 1,
+      logPrefix: '[test]',
+      run: async (h) => {
+        if (h === 3) throw Object.assign(new Error('fixture miss'), { retryable: false })
+      },
+    }),
+    /fixture miss/,
+  )
+})
+
+test('runScheduled starts nothing once stopped and waits for the heights in flight', async () => {
+  const started: number[] = []
+  const settled: number[] = []
+  let requestStop = () => {}
+  const stop = new Promise<void>((resolve) => {
+    requestStop = resolve
+  })
+  await runScheduled({
+    start: 1,
+    end: 100,
+    frontier: () => 1,
+    lookahead: 100,
+    concurrency: createConcurrencyController({ min: 1, max: 3, initial: 3, adaptive: false }),
+    retryBackoffMs: 1,
+    retryMaxBackoffMs: 1,
+    logPrefix: '[test]',
+    stop,
+    run: async (h) => {
+      started.push(h)
+      if (h === 5) requestStop()
+      await new Promise((r) => setTimeout(r, 5))
+      settled.push(h)
+    },
+  })
+  assert.ok(started.length < 10, `started ${started.length} heights`)
+  assert.deepEqual(
+    [...settled].sort((a, b) => a - b),
+    [...started].sort((a, b) => a - b),
+  )
+})
+
+test('runScheduled stops without waiting out a pending retry', async () => {
+  let requestStop = () => {}
+  const stop = new Promise<void>((resolve) => {
+    requestStop = resolve
+  })
+  const startedAt = Date.now()
+  await runScheduled({
+    start: 1,
+    end: 1,
+    frontier: () => 1,
+    lookahead: 1,
+    concurrency: createConcurrencyController({ min: 1, max: 1, initial: 1, adaptive: false }),
+    retryBackoffMs: 60_000,
+    retryMaxBackoffMs: 60_000,
+    logPrefix: '[test]',
+    stop,
+    run: async () => {
+      setTimeout(requestStop, 5)
+      throw new Error('endpoint down')
+    },
+  })
+  assert.ok(Date.now() - startedAt < 1000, 'waited for the retry backoff')
+})
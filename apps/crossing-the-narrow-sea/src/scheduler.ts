@@ -0,0 +1,188 @@
+/**
+ * Height scheduler for capture
+ *
+ * Heights come from one shared queue: any idle slot takes the lowest height that is due, so a
+ * block that keeps failing is retried with backoff (by whichever slot is free) instead of
+ * pinning one worker. Workers may run at most `lookahead` heights past the first uncommitted
+ * one, which bounds how much work a crash can lose. The number of heights in flight follows an
+ * AIMD controller: it halves on errors, steps down while latency is well above the best seen,
+ * and otherwise grows by one per round of completions.
+ */
+
+export interface ConcurrencyOptions {
+  min: number
+  max: number
+  initial: number
+  /** false pins the limit to `initial` */
+  adaptive: boolean
+}
+
+export interface ConcurrencyController {
+  limit: () => number
+  /** Reports one finished request; returns the new limit when it changed */
+  record: (latencyMs: number, ok: boolean) => number | null
+  stats: () => { limit: number; lowest: number; highest: number; latency_ms: number | null }
+}
+
+// Latency above this multiple of the best smoothed latency counts as congestion
+const CONGESTION_FACTOR = 2
+const EWMA_WEIGHT = 0.2
+
+export const createConcurrencyController = (opts: ConcurrencyOptions): ConcurrencyController => {
+  const clamp = (n: number) => Math.min(opts.max, Math.max(opts.min, n))
+  let limit = clamp(opts.initial)
+  let lowest = limit
+  let highest = limit
+  let ewma: number | null = null
+  let best = Number.POSITIVE_INFINITY
+  let roundCompletions = 0
+
+  const setLimit = (next: number): number | null => {
+    roundCompletions = 0
+    if (next === limit) return null
+    limit = next
+    lowest = Math.min(lowest, limit)
+    highest = Math.max(highest, limit)
+    return limit
+  }
+
+  const record = (latencyMs: number, ok: boolean): number | null => {
+    if (!opts.adaptive) return null
+    if (!ok) return setLimit(clamp(Math.floor(limit / 2)))
+
+    ewma = ewma == null ? latencyMs : EWMA_WEIGHT * latencyMs + (1 - EWMA_WEIGHT) * ewma
+    best = Math.min(best, ewma)
+    // Adjust once per round, i.e. after as many completions as the current limit
+    roundCompletions += 1
+    if (roundCompletions < limit) return null
+    return setLimit(clamp(ewma > best * CONGESTION_FACTOR ? limit - 1 : limit + 1))
+  }
+
+  return {
+    limit: () => limit,
+    record,
+    stats: () => ({
+      limit,
+      lowest,
+      highest,
+      latency_ms: ewma == null ? null : Math.round(ewma),
+    }),
+  }
+}
+
+export interface ScheduleOptions {
+  /** Inclusive height range */
+  start: number
+  end: number
+  /** First height not yet committed; new heights start at most `lookahead` past it */
+  frontier: () => number
+  lookahead: number
+  concurrency: ConcurrencyController
+  retryBackoffMs: number
+  retryMaxBackoffMs: number
+  logPrefix: string
+  run: (height: number) => Promise<void>
+  /** Once this resolves no height starts, and the run resolves when the ones in flight settle */
+  stop?: Promise<void>
+}
+
+interface PendingRetry {
+  attempt: number
+  notBefore: number
+}
+
+/**
+ * Runs `run` once for every height in [start, end], retrying failures until they succeed.
+ * Rejects on the first error marked `retryable: false`. With `stop` it may resolve before
+ * every height has run.
+ */
+export const runScheduled = (opts: ScheduleOptions): Promise<void> =>
+  new Promise<void>((resolve, reject) => {
+    const { concurrency, logPrefix } = opts
+    const retries = new Map<number, PendingRetry>()
+    let nextFresh = opts.start
+    let active = 0
+    let failed = false
+    let stopped = false
+    let timer: ReturnType<typeof setTimeout> | null = null
+
+    // Lowest due retry first, so the commit frontier moves; then the next fresh height
+    const pick = (now: number): number | null => {
+      if (stopped) return null
+      let due: number | null = null
+      for (const [h, r] of retries) {
+        if (r.notBefore <= now && (due == null || h < due)) due = h
+      }
+      if (due != null) return due
+      if (nextFresh <= opts.end && nextFresh < opts.frontier() + opts.lookahead) {
+        return nextFresh++
+      }
+      return null
+    }
+
+    const wakeForRetry = (now: number) => {
+      if (timer || retries.size === 0) return
+      const soonest = Math.min(...[...retries.values()].map((r) => r.notBefore))
+      timer = setTimeout(
+        () => {
+          timer = null
+          pump()
+        },
+        Math.max(soonest - now, 0),
+      )
+    }
+
+    const launch = (h: number) => {
+      const attempt = retries.get(h)?.attempt ?? 0
+      retries.delete(h)
+      active += 1
+      const startedAt = Date.now()
+      opts
+        .run(h)
+        .then(
+          () => {
+            concurrency.record(Date.now() - startedAt, true)
+          },
+          (err) => {
+            if ((err as { retryable?: boolean })?.retryable === false) {
+              failed = true
+              reject(err)
+              return
+            }
+            const changed = concurrency.record(Date.now() - startedAt, false)
+            if (changed != null) console.warn(`${logPrefix} concurrency lowered to ${changed}`)
+            const backoff = Math.min(opts.retryBackoffMs * 2 ** attempt, opts.retryMaxBackoffMs)
+            const msg = (err as Error)?.message || String(err)
+            console.warn(`${logPrefix} error at #${h}: ${msg}. retrying in ${backoff}ms`)
+            retries.set(h, { attempt: attempt + 1, notBefore: Date.now() + backoff })
+          },
+        )
+        .finally(() => {
+          active -= 1
+          pump()
+        })
+    }
+
+    const pump = () => {
+      if (failed) return
+      const now = Date.now()
+      while (active < concurrency.limit()) {
+        const h = pick(now)
+        if (h == null) break
+        launch(h)
+      }
+      const finished = stopped || (retries.size === 0 && nextFresh > opts.end)
+      if (active === 0 && finished) {
+        if (timer) clearTimeout(timer)
+        resolve()
+        return
+      }
+      wakeForRetry(now)
+    }
+
+    void opts.stop?.then(() => {
+      stopped = true
+      pump()
+    })
+    pump()
+  })
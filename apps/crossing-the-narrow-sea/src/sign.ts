@@ -0,0 +1,107 @@
+import 'dotenv/config'
+import * as fs from 'node:fs'
+import * as path from 'node:path'
+import { Keyring } from '@polkadot/api'
+import { stringToU8a, u8aToHex } from '@polkadot/util'
+import { cryptoWaitReady } from '@polkadot/util-crypto'
+import { ss58PrefixFromEnv } from './address'
+import { generateHtmlLeaderboard } from './htmlLeaderboard'
+import { MANIFEST_FILE, sha256File } from './manifest'
+import type { CountsResult, ResultSignature } from './types'
+
+// Signs the published results with an sr25519 key: the SHA-256 of manifest.json (which
+// covers every artifact) or, with --subject=counts, of counts_per_wallet.json. Writes
+// signature.json and, if present, re-renders leaderboard.html with the signer in its footer.
+// Usage: yarn sign [--subject=manifest|counts]
+const OUTPUT_DIR = process.env.OUTPUT_DIR || 'exports'
+
+// Keyring types via @polkadot/api, which bundles @polkadot/keyring
+type KeyringPair = ReturnType<Keyring['addFromUri']>
+type KeyringPairJson = Parameters<Keyring['addFromJson']>[0]
+
+export const SIGNATURE_FILE = 'signature.json'
+
+const SUBJECTS: Record<string, ResultSignature['subject']> = {
+  manifest: MANIFEST_FILE,
+  counts: 'counts_per_wallet.json',
+}
+
+/**
+ * The exact text that is signed for a subject file and its digest
+ */
+export const signatureMessage = (subject: ResultSignature['subject'], digest: string): string =>
+  `crossing-the-narrow-sea ${subject} sha256:${digest}`
+
+/**
+ * Loads the signing key from `SIGNER_KEY_FILE`: a polkadot-js JSON keystore (unlocked with
+ * `SIGNER_KEY_PASSWORD`) or a text file with a mnemonic or secret URI
+ */
+const loadSigner = (keyring: Keyring): KeyringPair => {
+  if (!process.env.SIGNER_KEY_FILE) {
+    throw new Error('SIGNER_KEY_FILE (keystore JSON or mnemonic file) is required')
+  }
+  const text = fs.readFileSync(path.resolve(process.env.SIGNER_KEY_FILE), 'utf8').trim()
+  if (!text.startsWith('{')) return keyring.addFromUri(text)
+  const pair = keyring.addFromJson(JSON.parse(text) as KeyringPairJson)
+  if (pair.type !== 'sr25519') throw new Error(`signer keystore is ${pair.type}, not sr25519`)
+  pair.decodePkcs8(process.env.SIGNER_KEY_PASSWORD)
+  return pair
+}
+
+const pickSubject = (outDirAbs: string): ResultSignature['subject'] => {
+  const arg = process.argv.find((a) => a.startsWith('--subject='))?.split('=')[1]
+  if (arg) {
+    if (!SUBJECTS[arg]) throw new Error(`--subject must be manifest or counts (got ${arg})`)
+    return SUBJECTS[arg]
+  }
+  return fs.existsSync(path.join(outDirAbs, MANIFEST_FILE)) ? MANIFEST_FILE : SUBJECTS.counts
+}
+
+export const runSign = async () => {
+  await cryptoWaitReady()
+  const outDirAbs = path.resolve(OUTPUT_DIR)
+  const keyring = new Keyring({ type: 'sr25519', ss58Format: ss58PrefixFromEnv() })
+  const pair = loadSigner(keyring)
+
+  const subject = pickSubject(outDirAbs)
+  const subjectFile = path.join(outDirAbs, subject)
+  if (!fs.existsSync(subjectFile)) throw new Error(`${subjectFile} not found; run counts first`)
+  const { sha256: digest } = await sha256File(subjectFile)
+  const message = signatureMessage(subject, digest)
+
+  const signature: ResultSignature = {
+    subject,
+    digest,
+    message,
+    signer: pair.address,
+    public_key: u8aToHex(pair.publicKey),
+    crypto: 'sr25519',
+    signature: u8aToHex(pair.sign(stringToU8a(message))),
+    signed_at: new Date().toISOString(),
+  }
+  const signatureFile = path.join(outDirAbs, SIGNATURE_FILE)
+  fs.writeFileSync(signatureFile, JSON.stringify(signature, null, 2) + '\n', 'utf8')
+
+  // The leaderboard is not part of the signed files, so it can carry the signature itself
+  const htmlFile = path.join(outDirAbs, 'leaderboard.html')
+  const countsFile = path.join(outDirAbs, 'counts_per_wallet.json')
+  const rerender = fs.existsSync(htmlFile) && fs.existsSync(countsFile)
+  if (rerender) {
+    const result = JSON.parse(fs.readFileSync(countsFile, 'utf8')) as CountsResult
+    generateHtmlLeaderboard(htmlFile, result, signature)
+  }
+
+  return { signature_file: signatureFile, html_file: rerender ? htmlFile : null, ...signature }
+}
+
+const main = async () => {
+  const result = await runSign()
+  console.log(JSON.stringify(result, null, 2))
+}
+
+if (require.main === module) {
+  main().catch((err) => {
+    console.error(err)
+    process.exit(1)
+  })
+}
@@ -1,6 +1,9 @@
 import Database from 'better-sqlite3'
 import * as fs from 'node:fs'
 import * as path from 'node:path'
+import type { ChainKey } from './chains'
+import { CONSENSUS, LEGACY_DOMAIN_LABEL, domainChainKey } from './chains'
+import type { AddressType } from './evm'
 
 export const openDb = (filePath: string) => {
   const abs = path.resolve(filePath)
@@ -10,16 +13,23 @@ export const openDb = (filePath: string) => {
   }
   const db = new Database(abs)
   db.pragma('journal_mode = WAL')
+  migrateTables(db)
   ensureTables(db)
   return db
 }
 
 export interface SourceInit {
-  source_chain: 'consensus' | 'domain'
+  source_chain: ChainKey
   dst_chain_id: number
+  dst_chain: ChainKey
   channel_id: number
   nonce: string
   from_address: string
+  /** `ss58` for Substrate signers, `h160` for senders of Ethereum transactions */
+  from_address_type: AddressType
+  to_address: string | null
+  /** Wrapper calls from the signed extrinsic down to the transfer call */
+  attribution_path: string | null
   amount: string
   source_block_height: number
   source_block_hash: string
@@ -27,8 +37,9 @@ export interface SourceInit {
 }
 
 export interface SourceInitFailed {
-  source_chain: 'consensus' | 'domain'
+  source_chain: ChainKey
   dst_chain_id: number
+  dst_chain: ChainKey
   channel_id: number
   nonce: string
   amount: string
@@ -39,7 +50,7 @@ export interface SourceInitFailed {
 }
 
 export interface EventFailure {
-  chain: 'consensus' | 'domain'
+  chain: ChainKey
   block_height: number
   block_hash: string
   extrinsic_index: number | null
@@ -50,8 +61,9 @@ export interface EventFailure {
 }
 
 export interface DestinationSuccess {
-  destination_chain: 'consensus' | 'domain'
+  destination_chain: ChainKey
   src_chain_id: number
+  src_chain: ChainKey
   channel_id: number
   nonce: string
   amount: string
@@ -60,8 +72,9 @@ export interface DestinationSuccess {
 }
 
 export interface SourceAck {
-  source_chain: 'consensus' | 'domain'
+  source_chain: ChainKey
   dst_chain_id: number
+  dst_chain: ChainKey
   channel_id: number
   nonce: string
   result: 'Ok' | 'Err'
@@ -69,23 +82,58 @@ export interface SourceAck {
   source_block_hash: string
 }
 
+export interface SourceOutboxMessage {
+  source_chain: ChainKey
+  dst_chain_id: number
+  dst_chain: ChainKey
+  channel_id: number
+  nonce: string
+  source_block_height: number
+  source_block_hash: string
+}
+
+export interface DestinationInboxResponse {
+  destination_chain: ChainKey
+  src_chain_id: number
+  src_chain: ChainKey
+  channel_id: number
+  nonce: string
+  destination_block_height: number
+  destination_block_hash: string
+}
+
+export interface SourceOutboxResponse {
+  source_chain: ChainKey
+  dst_chain_id: number
+  dst_chain: ChainKey
+  channel_id: number
+  nonce: string
+  source_block_height: number
+  source_block_hash: string
+}
+
 export const ensureTables = (db: Database.Database) => {
   db.exec(`
     CREATE TABLE IF NOT EXISTS source_inits (
       source_chain TEXT NOT NULL,
       dst_chain_id INTEGER NOT NULL,
+      dst_chain TEXT NOT NULL,
       channel_id INTEGER NOT NULL,
       nonce TEXT NOT NULL,
       from_address TEXT NOT NULL,
+      from_address_type TEXT NOT NULL DEFAULT 'ss58',
+      to_address TEXT,
+      attribution_path TEXT,
       amount TEXT NOT NULL,
       source_block_height INTEGER NOT NULL,
       source_block_hash TEXT NOT NULL,
       source_extrinsic_index INTEGER,
-      PRIMARY KEY (source_chain, channel_id, nonce)
+      PRIMARY KEY (source_chain, dst_chain, channel_id, nonce)
     );
     CREATE TABLE IF NOT EXISTS source_inits_failed (
       source_chain TEXT NOT NULL,
       dst_chain_id INTEGER NOT NULL,
+      dst_chain TEXT NOT NULL,
       channel_id INTEGER NOT NULL,
       nonce TEXT NOT NULL,
       amount TEXT NOT NULL,
@@ -93,32 +141,67 @@ export const ensureTables = (db: Database.Database) => {
       source_block_hash TEXT NOT NULL,
       source_extrinsic_index INTEGER,
       failure_reason TEXT NOT NULL,
-      PRIMARY KEY (source_chain, channel_id, nonce)
+      PRIMARY KEY (source_chain, dst_chain, channel_id, nonce)
     );
     CREATE TABLE IF NOT EXISTS destination_successes (
       destination_chain TEXT NOT NULL,
       src_chain_id INTEGER NOT NULL,
+      src_chain TEXT NOT NULL,
       channel_id INTEGER NOT NULL,
       nonce TEXT NOT NULL,
       amount TEXT NOT NULL,
       destination_block_height INTEGER NOT NULL,
       destination_block_hash TEXT NOT NULL,
-      PRIMARY KEY (destination_chain, channel_id, nonce)
+      PRIMARY KEY (destination_chain, src_chain, channel_id, nonce)
     );
     CREATE TABLE IF NOT EXISTS source_acks (
       source_chain TEXT NOT NULL,
       dst_chain_id INTEGER NOT NULL,
+      dst_chain TEXT NOT NULL,
       channel_id INTEGER NOT NULL,
       nonce TEXT NOT NULL,
       result TEXT NOT NULL,
       source_block_height INTEGER NOT NULL,
       source_block_hash TEXT NOT NULL,
-      PRIMARY KEY (source_chain, channel_id, nonce)
+      PRIMARY KEY (source_chain, dst_chain, channel_id, nonce)
+    );
+    CREATE TABLE IF NOT EXISTS source_outbox_messages (
+      source_chain TEXT NOT NULL,
+      dst_chain_id INTEGER NOT NULL,
+      dst_chain TEXT NOT NULL,
+      channel_id INTEGER NOT NULL,
+      nonce TEXT NOT NULL,
+      source_block_height INTEGER NOT NULL,
+      source_block_hash TEXT NOT NULL,
+      PRIMARY KEY (source_chain, dst_chain, channel_id, nonce)
     );
-    CREATE INDEX IF NOT EXISTS idx_src_init_key ON source_inits (channel_id, nonce, source_chain);
-    CREATE INDEX IF NOT EXISTS idx_src_init_failed_key ON source_inits_failed (channel_id, nonce, source_chain);
-    CREATE INDEX IF NOT EXISTS idx_dst_succ_key ON destination_successes (channel_id, nonce, destination_chain);
-    CREATE INDEX IF NOT EXISTS idx_src_ack_key ON source_acks (channel_id, nonce, source_chain);
+    CREATE TABLE IF NOT EXISTS destination_inbox_responses (
+      destination_chain TEXT NOT NULL,
+      src_chain_id INTEGER NOT NULL,
+      src_chain TEXT NOT NULL,
+      channel_id INTEGER NOT NULL,
+      nonce TEXT NOT NULL,
+      destination_block_height INTEGER NOT NULL,
+      destination_block_hash TEXT NOT NULL,
+      PRIMARY KEY (destination_chain, src_chain, channel_id, nonce)
+    );
+    CREATE TABLE IF NOT EXISTS source_outbox_responses (
+      source_chain TEXT NOT NULL,
+      dst_chain_id INTEGER NOT NULL,
+      dst_chain TEXT NOT NULL,
+      channel_id INTEGER NOT NULL,
+      nonce TEXT NOT NULL,
+      source_block_height INTEGER NOT NULL,
+      source_block_hash TEXT NOT NULL,
+      PRIMARY KEY (source_chain, dst_chain, channel_id, nonce)
+    );
+    CREATE INDEX IF NOT EXISTS idx_src_init_key ON source_inits (channel_id, nonce, source_chain, dst_chain);
+    CREATE INDEX IF NOT EXISTS idx_src_init_failed_key ON source_inits_failed (channel_id, nonce, source_chain, dst_chain);
+    CREATE INDEX IF NOT EXISTS idx_dst_succ_key ON destination_successes (channel_id, nonce, destination_chain, src_chain);
+    CREATE INDEX IF NOT EXISTS idx_src_ack_key ON source_acks (channel_id, nonce, source_chain, dst_chain);
+    CREATE INDEX IF NOT EXISTS idx_src_outbox_key ON source_outbox_messages (channel_id, nonce, source_chain, dst_chain);
+    CREATE INDEX IF NOT EXISTS idx_dst_inbox_resp_key ON destination_inbox_responses (channel_id, nonce, destination_chain, src_chain);
+    CREATE INDEX IF NOT EXISTS idx_src_outbox_resp_key ON source_outbox_responses (channel_id, nonce, source_chain, dst_chain);
     CREATE TABLE IF NOT EXISTS scan_progress (
       chain TEXT PRIMARY KEY,
       last_block_height INTEGER NOT NULL
@@ -131,123 +214,555 @@ export const ensureTables = (db: Database.Database) => {
       section TEXT NOT NULL,
       method TEXT NOT NULL,
       reason TEXT NOT NULL,
-      details TEXT,
-      created_at INTEGER NOT NULL DEFAULT (strftime('%s','now'))
+      details TEXT
     );
     CREATE INDEX IF NOT EXISTS idx_event_failures_block ON event_failures (block_height, chain);
+    CREATE TABLE IF NOT EXISTS block_timestamps (
+      chain TEXT NOT NULL,
+      block_height INTEGER NOT NULL,
+      block_hash TEXT NOT NULL,
+      timestamp_ms INTEGER NOT NULL,
+      PRIMARY KEY (chain, block_height)
+    );
+    CREATE INDEX IF NOT EXISTS idx_block_timestamps_time ON block_timestamps (chain, timestamp_ms);
+    CREATE TABLE IF NOT EXISTS runtime_versions (
+      chain TEXT NOT NULL,
+      block_height INTEGER NOT NULL,
+      block_hash TEXT NOT NULL,
+      spec_name TEXT NOT NULL,
+      spec_version INTEGER NOT NULL,
+      PRIMARY KEY (chain, block_height)
+    );
+    CREATE TABLE IF NOT EXISTS block_ledger (
+      chain TEXT NOT NULL,
+      block_height INTEGER NOT NULL,
+      block_hash TEXT NOT NULL,
+      event_count INTEGER NOT NULL,
+      xdm_event_count INTEGER NOT NULL,
+      PRIMARY KEY (chain, block_height)
+    );
   `)
 }
 
-export const upsertSourceInit = (db: Database.Database, row: SourceInit) => {
-  ensureTables(db)
-  const stmt = db.prepare(`
+/**
+ * Adds columns introduced after a database was first created
+ */
+const ensureColumn = (db: Database.Database, table: string, column: string, decl: string) => {
+  if (!hasColumn(db, table, column)) {
+    db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${decl}`)
+  }
+}
+
+const hasColumn = (db: Database.Database, table: string, column: string): boolean => {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[]
+  return columns.some((c) => c.name === column)
+}
+
+const tableExists = (db: Database.Database, table: string): boolean =>
+  !!db.prepare("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = ?").get(table)
+
+// Tables that gained a counterpart chain column (and primary key member) with the chain registry
+const COUNTERPART_TABLES = [
+  {
+    table: 'source_inits',
+    chain: 'source_chain',
+    counterpart: 'dst_chain',
+    index: 'idx_src_init_key',
+  },
+  {
+    table: 'source_inits_failed',
+    chain: 'source_chain',
+    counterpart: 'dst_chain',
+    index: 'idx_src_init_failed_key',
+  },
+  {
+    table: 'source_acks',
+    chain: 'source_chain',
+    counterpart: 'dst_chain',
+    index: 'idx_src_ack_key',
+  },
+  {
+    table: 'source_outbox_messages',
+    chain: 'source_chain',
+    counterpart: 'dst_chain',
+    index: 'idx_src_outbox_key',
+  },
+  {
+    table: 'source_outbox_responses',
+    chain: 'source_chain',
+    counterpart: 'dst_chain',
+    index: 'idx_src_outbox_resp_key',
+  },
+  {
+    table: 'destination_successes',
+    chain: 'destination_chain',
+    counterpart: 'src_chain',
+    index: 'idx_dst_succ_key',
+  },
+  {
+    table: 'destination_inbox_responses',
+    chain: 'destination_chain',
+    counterpart: 'src_chain',
+    index: 'idx_dst_inbox_resp_key',
+  },
+] as const
+
+/**
+ * Rewrites a consensus/domain-only database for the chain registry: the legacy `domain`
+ * label becomes `domain-0` and every XDM table gets its counterpart chain, which in a
+ * two-chain database is always the other chain. Tables that already have their counterpart
+ * are left alone; `source_inits_failed` got it later, and capture never writes that table.
+ */
+const migrateToChainRegistry = (db: Database.Database) => {
+  const domain0 = domainChainKey(0)
+  const relabel = (col: string) =>
+    `CASE ${col} WHEN '${LEGACY_DOMAIN_LABEL}' THEN '${domain0}' ELSE ${col} END`
+  const counterpartOf = (col: string) =>
+    `CASE ${col} WHEN '${CONSENSUS}' THEN '${domain0}' ELSE '${CONSENSUS}' END`
+
+  db.transaction(() => {
+    const legacy = COUNTERPART_TABLES.filter(
+      ({ table, counterpart }) => tableExists(db, table) && !hasColumn(db, table, counterpart),
+    )
+    for (const { table, index } of legacy) {
+      db.exec(`DROP INDEX IF EXISTS ${index}; ALTER TABLE ${table} RENAME TO ${table}_legacy;`)
+    }
+    ensureTables(db)
+    for (const { table, chain, counterpart } of legacy) {
+      const columns = (
+        db.prepare(`PRAGMA table_info(${table}_legacy)`).all() as { name: string }[]
+      ).map((c) => c.name)
+      const select = columns.map((c) => (c === chain ? relabel(c) : c))
+      db.exec(`
+        INSERT INTO ${table} (${columns.join(', ')}, ${counterpart})
+        SELECT ${select.join(', ')}, ${counterpartOf(chain)} FROM ${table}_legacy;
+        DROP TABLE ${table}_legacy;
+      `)
+    }
+    for (const [table, col] of [
+      ['scan_progress', 'chain'],
+      ['event_failures', 'chain'],
+    ]) {
+      db.prepare(`UPDATE ${table} SET ${col} = ? WHERE ${col} = ?`).run(
+        domain0,
+        LEGACY_DOMAIN_LABEL,
+      )
+    }
+  })()
+}
+
+/**
+ * Brings databases created by earlier versions up to the current schema; runs before `ensureTables`
+ */
+export const migrateTables = (db: Database.Database) => {
+  // Fresh database: ensureTables creates the current schema
+  if (!tableExists(db, 'source_inits')) return
+  ensureColumn(db, 'source_inits', 'to_address', 'TEXT')
+  ensureColumn(db, 'source_inits', 'attribution_path', 'TEXT')
+  ensureColumn(db, 'source_inits', 'from_address_type', "TEXT NOT NULL DEFAULT 'ss58'")
+  // source_inits_failed only got its counterpart after the other tables
+  const unmigrated = COUNTERPART_TABLES.some(
+    ({ table, counterpart }) => tableExists(db, table) && !hasColumn(db, table, counterpart),
+  )
+  if (unmigrated) migrateToChainRegistry(db)
+  // Wall-clock columns made replayed databases differ from run to run
+  if (tableExists(db, 'block_ledger') && hasColumn(db, 'block_ledger', 'processed_at')) {
+    db.exec('ALTER TABLE block_ledger DROP COLUMN processed_at')
+  }
+  if (tableExists(db, 'event_failures') && hasColumn(db, 'event_failures', 'created_at')) {
+    db.exec('ALTER TABLE event_failures DROP COLUMN created_at')
+  }
+}
+
+export interface BlockTimestamp {
+  chain: ChainKey
+  block_height: number
+  block_hash: string
+  /** `timestamp.set` inherent value (Unix milliseconds) */
+  timestamp_ms: number
+}
+
+/**
+ * One row per processed block, written in the block's transaction: proof that every height
+ * in a window was processed, independent of `scan_progress`. Holds only what the block itself
+ * determines, so replaying a fixture archive reproduces the table byte for byte.
+ */
+export interface LedgerEntry {
+  chain: ChainKey
+  block_height: number
+  block_hash: string
+  /** All events of the block */
+  event_count: number
+  /** Events capture turns into rows (transfers and messenger messages) */
+  xdm_event_count: number
+}
+
+const UPSERT_SQL = {
+  sourceInit: `
     INSERT INTO source_inits (
-      source_chain, dst_chain_id, channel_id, nonce, from_address, amount,
-      source_block_height, source_block_hash, source_extrinsic_index
+      source_chain, dst_chain_id, dst_chain, channel_id, nonce, from_address, from_address_type,
+      to_address, attribution_path, amount, source_block_height, source_block_hash,
+      source_extrinsic_index
     ) VALUES (
-      @source_chain, @dst_chain_id, @channel_id, @nonce, @from_address, @amount,
-      @source_block_height, @source_block_hash, @source_extrinsic_index
+      @source_chain, @dst_chain_id, @dst_chain, @channel_id, @nonce, @from_address,
+      @from_address_type, @to_address, @attribution_path, @amount, @source_block_height,
+      @source_block_hash, @source_extrinsic_index
     )
-    ON CONFLICT(source_chain, channel_id, nonce) DO UPDATE SET
+    ON CONFLICT(source_chain, dst_chain, channel_id, nonce) DO UPDATE SET
       dst_chain_id=excluded.dst_chain_id,
       from_address=excluded.from_address,
+      from_address_type=excluded.from_address_type,
+      to_address=excluded.to_address,
+      attribution_path=excluded.attribution_path,
       amount=excluded.amount,
       source_block_height=excluded.source_block_height,
       source_block_hash=excluded.source_block_hash,
       source_extrinsic_index=excluded.source_extrinsic_index
-  `)
-  stmt.run(row as any)
-}
-
-export const upsertSourceInitFailed = (db: Database.Database, row: SourceInitFailed) => {
-  ensureTables(db)
-  const stmt = db.prepare(`
+  `,
+  sourceInitFailed: `
     INSERT INTO source_inits_failed (
-      source_chain, dst_chain_id, channel_id, nonce, amount,
+      source_chain, dst_chain_id, dst_chain, channel_id, nonce, amount,
       source_block_height, source_block_hash, source_extrinsic_index, failure_reason
     ) VALUES (
-      @source_chain, @dst_chain_id, @channel_id, @nonce, @amount,
+      @source_chain, @dst_chain_id, @dst_chain, @channel_id, @nonce, @amount,
       @source_block_height, @source_block_hash, @source_extrinsic_index, @failure_reason
     )
-    ON CONFLICT(source_chain, channel_id, nonce) DO UPDATE SET
+    ON CONFLICT(source_chain, dst_chain, channel_id, nonce) DO UPDATE SET
       dst_chain_id=excluded.dst_chain_id,
       amount=excluded.amount,
       source_block_height=excluded.source_block_height,
       source_block_hash=excluded.source_block_hash,
       source_extrinsic_index=excluded.source_extrinsic_index,
       failure_reason=excluded.failure_reason
-  `)
-  stmt.run(row as any)
-}
-
-export const insertEventFailure = (db: Database.Database, row: EventFailure) => {
-  ensureTables(db)
-  const stmt = db.prepare(`
+  `,
+  eventFailure: `
     INSERT INTO event_failures (
       chain, block_height, block_hash, extrinsic_index, section, method, reason, details
     ) VALUES (
       @chain, @block_height, @block_hash, @extrinsic_index, @section, @method, @reason, @details
     )
-  `)
-  stmt.run(row as any)
-}
-
-export const upsertDestinationSuccess = (db: Database.Database, row: DestinationSuccess) => {
-  ensureTables(db)
-  const stmt = db.prepare(`
+  `,
+  destinationSuccess: `
     INSERT INTO destination_successes (
-      destination_chain, src_chain_id, channel_id, nonce, amount,
+      destination_chain, src_chain_id, src_chain, channel_id, nonce, amount,
       destination_block_height, destination_block_hash
     ) VALUES (
-      @destination_chain, @src_chain_id, @channel_id, @nonce, @amount,
+      @destination_chain, @src_chain_id, @src_chain, @channel_id, @nonce, @amount,
       @destination_block_height, @destination_block_hash
     )
-    ON CONFLICT(destination_chain, channel_id, nonce) DO UPDATE SET
+    ON CONFLICT(destination_chain, src_chain, channel_id, nonce) DO UPDATE SET
       src_chain_id=excluded.src_chain_id,
       amount=excluded.amount,
       destination_block_height=excluded.destination_block_height,
       destination_block_hash=excluded.destination_block_hash
-  `)
-  stmt.run(row as any)
-}
-
-export const upsertSourceAck = (db: Database.Database, row: SourceAck) => {
-  ensureTables(db)
-  const stmt = db.prepare(`
+  `,
+  sourceAck: `
     INSERT INTO source_acks (
-      source_chain, dst_chain_id, channel_id, nonce, result,
+      source_chain, dst_chain_id, dst_chain, channel_id, nonce, result,
       source_block_height, source_block_hash
     ) VALUES (
-      @source_chain, @dst_chain_id, @channel_id, @nonce, @result,
+      @source_chain, @dst_chain_id, @dst_chain, @channel_id, @nonce, @result,
       @source_block_height, @source_block_hash
     )
-    ON CONFLICT(source_chain, channel_id, nonce) DO UPDATE SET
+    ON CONFLICT(source_chain, dst_chain, channel_id, nonce) DO UPDATE SET
       dst_chain_id=excluded.dst_chain_id,
       result=excluded.result,
       source_block_height=excluded.source_block_height,
       source_block_hash=excluded.source_block_hash
-  `)
-  stmt.run(row as any)
+  `,
+  sourceOutboxMessage: `
+    INSERT INTO source_outbox_messages (
+      source_chain, dst_chain_id, dst_chain, channel_id, nonce, source_block_height, source_block_hash
+    ) VALUES (
+      @source_chain, @dst_chain_id, @dst_chain, @channel_id, @nonce, @source_block_height, @source_block_hash
+    )
+    ON CONFLICT(source_chain, dst_chain, channel_id, nonce) DO UPDATE SET
+      dst_chain_id=excluded.dst_chain_id,
+      source_block_height=excluded.source_block_height,
+      source_block_hash=excluded.source_block_hash
+  `,
+  destinationInboxResponse: `
+    INSERT INTO destination_inbox_responses (
+      destination_chain, src_chain_id, src_chain, channel_id, nonce,
+      destination_block_height, destination_block_hash
+    ) VALUES (
+      @destination_chain, @src_chain_id, @src_chain, @channel_id, @nonce,
+      @destination_block_height, @destination_block_hash
+    )
+    ON CONFLICT(destination_chain, src_chain, channel_id, nonce) DO UPDATE SET
+      src_chain_id=excluded.src_chain_id,
+      destination_block_height=excluded.destination_block_height,
+      destination_block_hash=excluded.destination_block_hash
+  `,
+  sourceOutboxResponse: `
+    INSERT INTO source_outbox_responses (
+      source_chain, dst_chain_id, dst_chain, channel_id, nonce, source_block_height, source_block_hash
+    ) VALUES (
+      @source_chain, @dst_chain_id, @dst_chain, @channel_id, @nonce, @source_block_height, @source_block_hash
+    )
+    ON CONFLICT(source_chain, dst_chain, channel_id, nonce) DO UPDATE SET
+      dst_chain_id=excluded.dst_chain_id,
+      source_block_height=excluded.source_block_height,
+      source_block_hash=excluded.source_block_hash
+  `,
+  blockTimestamp: `
+    INSERT INTO block_timestamps (chain, block_height, block_hash, timestamp_ms)
+    VALUES (@chain, @block_height, @block_hash, @timestamp_ms)
+    ON CONFLICT(chain, block_height) DO UPDATE SET
+      block_hash=excluded.block_hash,
+      timestamp_ms=excluded.timestamp_ms
+  `,
+  ledger: `
+    INSERT INTO block_ledger (
+      chain, block_height, block_hash, event_count, xdm_event_count
+    ) VALUES (
+      @chain, @block_height, @block_hash, @event_count, @xdm_event_count
+    )
+    ON CONFLICT(chain, block_height) DO UPDATE SET
+      block_hash=excluded.block_hash,
+      event_count=excluded.event_count,
+      xdm_event_count=excluded.xdm_event_count
+  `,
+  progress: `
+    INSERT INTO scan_progress(chain, last_block_height) VALUES (@chain, @height)
+    ON CONFLICT(chain) DO UPDATE SET
+      last_block_height=MAX(last_block_height, excluded.last_block_height)
+  `,
+  runtimeVersion: `
+    INSERT INTO runtime_versions (chain, block_height, block_hash, spec_name, spec_version)
+    VALUES (@chain, @block_height, @block_hash, @spec_name, @spec_version)
+    ON CONFLICT(chain, block_height) DO UPDATE SET
+      block_hash=excluded.block_hash,
+      spec_name=excluded.spec_name,
+      spec_version=excluded.spec_version
+  `,
+}
+
+const LAST_PROCESSED_SQL = 'SELECT last_block_height AS height FROM scan_progress WHERE chain = ?'
+
+// Every table holding rows of a block, with its chain and height columns (see `purgeBlock`)
+const BLOCK_TABLES = [
+  ['source_inits', 'source_chain', 'source_block_height'],
+  ['source_inits_failed', 'source_chain', 'source_block_height'],
+  ['destination_successes', 'destination_chain', 'destination_block_height'],
+  ['source_acks', 'source_chain', 'source_block_height'],
+  ['source_outbox_messages', 'source_chain', 'source_block_height'],
+  ['destination_inbox_responses', 'destination_chain', 'destination_block_height'],
+  ['source_outbox_responses', 'source_chain', 'source_block_height'],
+  ['event_failures', 'chain', 'block_height'],
+  ['block_timestamps', 'chain', 'block_height'],
+  ['runtime_versions', 'chain', 'block_height'],
+  ['block_ledger', 'chain', 'block_height'],
+] as const
+
+/**
+ * Capture write path: every statement is prepared once, and callers group the rows of a
+ * block (and its progress update) with `inTransaction` so each block is one commit.
+ */
+export interface CaptureStore {
+  db: Database.Database
+  upsertSourceInit: (row: SourceInit) => void
+  upsertSourceInitFailed: (row: SourceInitFailed) => void
+  insertEventFailure: (row: EventFailure) => void
+  upsertDestinationSuccess: (row: DestinationSuccess) => void
+  upsertSourceAck: (row: SourceAck) => void
+  upsertSourceOutboxMessage: (row: SourceOutboxMessage) => void
+  upsertDestinationInboxResponse: (row: DestinationInboxResponse) => void
+  upsertSourceOutboxResponse: (row: SourceOutboxResponse) => void
+  upsertBlockTimestamp: (row: BlockTimestamp) => void
+  /** Records that a block was processed (not counted as an evidence row) */
+  upsertLedgerEntry: (row: LedgerEntry) => void
+  /** Runtime version at a window boundary block (not counted as an evidence row) */
+  upsertRuntimeVersion: (row: RuntimeVersion) => void
+  /** Progress only moves forward */
+  setLastProcessedBlockHeight: (chain: ChainKey, height: number) => void
+  getLastProcessedBlockHeight: (chain: ChainKey) => number | null
+  /** Removes every row captured for `chain` at `height` so the block can be re-captured cleanly */
+  purgeBlock: (chain: ChainKey, height: number) => void
+  /** Runs `fn` in one transaction; a throw rolls back every write made inside it */
+  inTransaction: <T>(fn: () => T) => T
+  /** Evidence rows written since the store was created (progress updates not included) */
+  rowsWritten: () => number
 }
 
+export const createCaptureStore = (db: Database.Database): CaptureStore => {
+  ensureTables(db)
+  let rows = 0
+  const writer = <T>(sql: string) => {
+    const stmt = db.prepare(sql)
+    return (row: T) => {
+      stmt.run(row as any)
+      rows += 1
+    }
+  }
+  const failure = writer<Omit<EventFailure, 'details'> & { details: string | null }>(
+    UPSERT_SQL.eventFailure,
+  )
+  const ledger = db.prepare(UPSERT_SQL.ledger)
+  const runtimeVersion = db.prepare(UPSERT_SQL.runtimeVersion)
+  const progress = db.prepare(UPSERT_SQL.progress)
+  const lastProcessed = db.prepare(LAST_PROCESSED_SQL)
+  const purges = BLOCK_TABLES.map(([table, chainCol, heightCol]) =>
+    db.prepare(`DELETE FROM ${table} WHERE ${chainCol} = ? AND ${heightCol} = ?`),
+  )
+  const purge = db.transaction((chain: ChainKey, height: number) => {
+    for (const stmt of purges) stmt.run(chain, height)
+  })
+
+  return {
+    db,
+    upsertSourceInit: writer(UPSERT_SQL.sourceInit),
+    upsertSourceInitFailed: writer(UPSERT_SQL.sourceInitFailed),
+    // better-sqlite3 rejects a missing named parameter, so absent details are bound as NULL
+    insertEventFailure: (row) => failure({ ...row, details: row.details ?? null }),
+    upsertDestinationSuccess: writer(UPSERT_SQL.destinationSuccess),
+    upsertSourceAck: writer(UPSERT_SQL.sourceAck),
+    upsertSourceOutboxMessage: writer(UPSERT_SQL.sourceOutboxMessage),
+    upsertDestinationInboxResponse: writer(UPSERT_SQL.destinationInboxResponse),
+    upsertSourceOutboxResponse: writer(UPSERT_SQL.sourceOutboxResponse),
+    upsertBlockTimestamp: writer(UPSERT_SQL.blockTimestamp),
+    upsertLedgerEntry: (row) => {
+      ledger.run(row as any)
+    },
+    upsertRuntimeVersion: (row) => {
+      runtimeVersion.run(row as any)
+    },
+    setLastProcessedBlockHeight: (chain, height) => {
+      progress.run({ chain, height })
+    },
+    getLastProcessedBlockHeight: (chain) =>
+      (lastProcessed.get(chain) as { height: number | null } | undefined)?.height ?? null,
+    purgeBlock: (chain, height) => purge(chain, height),
+    inTransaction: (fn) => db.transaction(fn)(),
+    rowsWritten: () => rows,
+  }
+}
+
+/**
+ * Reads `scan_progress` for reports; capture goes through its `CaptureStore`
+ */
 export const getLastProcessedBlockHeight = (
   db: Database.Database,
-  chain: 'consensus' | 'domain',
+  chain: ChainKey,
 ): number | null => {
-  ensureTables(db)
-  const row = db
-    .prepare('SELECT last_block_height AS height FROM scan_progress WHERE chain = ?')
-    .get(chain) as { height: number | null } | undefined
+  const row = db.prepare(LAST_PROCESSED_SQL).get(chain) as { height: number | null } | undefined
   return row?.height ?? null
 }
 
-export const setLastProcessedBlockHeight = (
+/**
+ * Runtime version at a window boundary block, recorded by capture for the run manifest
+ */
+export interface RuntimeVersion {
+  chain: ChainKey
+  block_height: number
+  block_hash: string
+  spec_name: string
+  spec_version: number
+}
+
+export const getRuntimeVersions = (db: Database.Database, chain: ChainKey): RuntimeVersion[] =>
+  db
+    .prepare('SELECT * FROM runtime_versions WHERE chain = ? ORDER BY block_height')
+    .all(chain) as RuntimeVersion[]
+
+export interface CapturedBlock {
+  height: number
+  hash: string
+}
+
+/**
+ * Distinct (height, hash) pairs referenced by rows captured for `chain` within [from, to].
+ */
+export const getCapturedBlocks = (
   db: Database.Database,
-  chain: 'consensus' | 'domain',
-  height: number,
-): void => {
-  ensureTables(db)
-  db.prepare(
-    'INSERT INTO scan_progress(chain, last_block_height) VALUES (?, ?) ON CONFLICT(chain) DO UPDATE SET last_block_height=MAX(last_block_height, excluded.last_block_height)',
-  ).run(chain, height)
+  chain: ChainKey,
+  from: number,
+  to: number,
+): CapturedBlock[] =>
+  db
+    .prepare(
+      `
+    SELECT source_block_height AS height, source_block_hash AS hash FROM source_inits
+      WHERE source_chain = @chain AND source_block_height BETWEEN @from AND @to
+    UNION
+    SELECT source_block_height, source_block_hash FROM source_inits_failed
+      WHERE source_chain = @chain AND source_block_height BETWEEN @from AND @to
+    UNION
+    SELECT destination_block_height, destination_block_hash FROM destination_successes
+      WHERE destination_chain = @chain AND destination_block_height BETWEEN @from AND @to
+    UNION
+    SELECT source_block_height, source_block_hash FROM source_acks
+      WHERE source_chain = @chain AND source_block_height BETWEEN @from AND @to
+    UNION
+    SELECT source_block_height, source_block_hash FROM source_outbox_messages
+      WHERE source_chain = @chain AND source_block_height BETWEEN @from AND @to
+    UNION
+    SELECT destination_block_height, destination_block_hash FROM destination_inbox_responses
+      WHERE destination_chain = @chain AND destination_block_height BETWEEN @from AND @to
+    UNION
+    SELECT source_block_height, source_block_hash FROM source_outbox_responses
+      WHERE source_chain = @chain AND source_block_height BETWEEN @from AND @to
+    UNION
+    SELECT block_height, block_hash FROM event_failures
+      WHERE chain = @chain AND block_height BETWEEN @from AND @to
+    ORDER BY height
+  `,
+    )
+    .all({ chain, from, to }) as CapturedBlock[]
+
+export const getLedgerEntries = (
+  db: Database.Database,
+  chain: ChainKey,
+  from: number,
+  to: number,
+): LedgerEntry[] =>
+  db
+    .prepare(
+      'SELECT * FROM block_ledger WHERE chain = ? AND block_height BETWEEN ? AND ? ORDER BY block_height',
+    )
+    .all(chain, from, to) as LedgerEntry[]
+
+export interface StoredBlockRows extends CapturedBlock {
+  /** Rows produced from XDM events (evidence rows and event failures) */
+  rows: number
 }
+
+/**
+ * Number of XDM rows stored per (height, hash) for `chain` within [from, to]
+ */
+export const getStoredRowsByBlock = (
+  db: Database.Database,
+  chain: ChainKey,
+  from: number,
+  to: number,
+): StoredBlockRows[] =>
+  db
+    .prepare(
+      `
+    SELECT height, hash, COUNT(*) AS rows FROM (
+      SELECT source_block_height AS height, source_block_hash AS hash FROM source_inits
+        WHERE source_chain = @chain AND source_block_height BETWEEN @from AND @to
+      UNION ALL
+      SELECT destination_block_height, destination_block_hash FROM destination_successes
+        WHERE destination_chain = @chain AND destination_block_height BETWEEN @from AND @to
+      UNION ALL
+      SELECT source_block_height, source_block_hash FROM source_acks
+        WHERE source_chain = @chain AND source_block_height BETWEEN @from AND @to
+      UNION ALL
+      SELECT source_block_height, source_block_hash FROM source_outbox_messages
+        WHERE source_chain = @chain AND source_block_height BETWEEN @from AND @to
+      UNION ALL
+      SELECT destination_block_height, destination_block_hash FROM destination_inbox_responses
+        WHERE destination_chain = @chain AND destination_block_height BETWEEN @from AND @to
+      UNION ALL
+      SELECT source_block_height, source_block_hash FROM source_outbox_responses
+        WHERE source_chain = @chain AND source_block_height BETWEEN @from AND @to
+      UNION ALL
+      SELECT block_height, block_hash FROM event_failures
+        WHERE chain = @chain AND block_height BETWEEN @from AND @to
+    )
+    GROUP BY height, hash
+    ORDER BY height
+  `,
+    )
+    .all({ chain, from, to }) as StoredBlockRows[]
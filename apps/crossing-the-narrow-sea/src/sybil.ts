@@ -0,0 +1,312 @@
+import 'dotenv/config'
+import * as fs from 'node:fs'
+import * as path from 'node:path'
+import { openDb } from './sqlite'
+import type { ChainKey } from './chains'
+import type { CanonicalAddress } from './address'
+import { canonicalAddress, ss58PrefixFromEnv } from './address'
+import { parseAmount, parseUnits, tokenFromEnv } from './volume'
+import type { SybilCluster, SybilReport, SybilSignal, WalletSybil } from './types'
+
+// Farming signals per sender wallet from every captured transfer init, linked into clusters.
+// `counts` picks up the report to show flags next to each wallet
+const OUTPUT_DIR = process.env.OUTPUT_DIR || 'exports'
+const DB_PATH = `${OUTPUT_DIR}/xdm.sqlite`
+const SYBIL_FLAG_SCORE = Number(process.env.SYBIL_FLAG_SCORE || 0.5)
+const SYBIL_DUST_AMOUNT = process.env.SYBIL_DUST_AMOUNT || '0.01'
+const SYBIL_ROUND_TRIP_TOLERANCE = Number(process.env.SYBIL_ROUND_TRIP_TOLERANCE || 1)
+const SYBIL_MIN_INTERVAL_TRANSFERS = Math.max(3, Number(process.env.SYBIL_MIN_TRANSFERS || 10))
+const SYBIL_FAN_IN_SENDERS = Math.max(2, Number(process.env.SYBIL_FAN_IN_SENDERS || 20))
+
+export const sybilReportPath = (outputDir: string = OUTPUT_DIR): string =>
+  path.resolve(outputDir, 'sybil_report.json')
+
+/**
+ * Reads `<outputDir>/sybil_report.json`, null when `sybil` has not been run
+ */
+export const readSybilReport = (outputDir: string): SybilReport | null => {
+  const file = sybilReportPath(outputDir)
+  return fs.existsSync(file) ? (JSON.parse(fs.readFileSync(file, 'utf8')) as SybilReport) : null
+}
+
+interface Transfer {
+  source: ChainKey
+  destination: ChainKey
+  /** Recipient key, null when the destination could not be decoded */
+  to: string | null
+  amount: bigint | null
+  timestampMs: number | null
+}
+
+const INITS_SQL = `
+  SELECT i.source_chain, i.dst_chain, i.from_address, i.to_address, i.amount,
+    st.timestamp_ms AS source_timestamp
+  FROM source_inits i
+  LEFT JOIN block_timestamps st
+    ON st.chain = i.source_chain AND st.block_height = i.source_block_height
+  ORDER BY i.source_chain, i.source_block_height, i.source_extrinsic_index
+`
+
+const round3 = (n: number): number => Number(n.toFixed(3))
+
+// Candidate returns checked per transfer, in capture order, so bot wallets stay linear
+const ROUND_TRIP_LOOKAHEAD = 1000
+
+const withinTolerance = (a: bigint, b: bigint, toleranceBps: bigint): boolean =>
+  (a > b ? a - b : b - a) * 10_000n <= b * toleranceBps
+
+// Transfers sent back by the recipient to the sender on the reverse route with an amount
+// within the tolerance; each return is paired with at most one transfer
+const countRoundTrips = (
+  byWallet: Map<string, Transfer[]>,
+  toleranceBps: bigint,
+): { pairs: Map<string, number>; edges: [string, string][] } => {
+  const routeKey = (from: string, to: string, source: ChainKey, destination: ChainKey) =>
+    `${from}|${to}|${source}|${destination}`
+  const byRoute = new Map<string, Transfer[]>()
+  for (const [wallet, transfers] of byWallet) {
+    for (const t of transfers) {
+      if (t.to == null) continue
+      const key = routeKey(wallet, t.to, t.source, t.destination)
+      const route = byRoute.get(key) ?? []
+      route.push(t)
+      byRoute.set(key, route)
+    }
+  }
+
+  const pairs = new Map<string, number>()
+  const edges: [string, string][] = []
+  const used = new Set<Transfer>()
+  // First possibly unused return per route
+  const cursors = new Map<string, number>()
+  for (const [wallet, transfers] of byWallet) {
+    for (const t of transfers) {
+      const amount = t.amount
+      if (t.to == null || amount == null || used.has(t)) continue
+      const key = routeKey(t.to, wallet, t.destination, t.source)
+      const returns = byRoute.get(key) ?? []
+      let start = cursors.get(key) ?? 0
+      while (start < returns.length && used.has(returns[start])) start++
+      cursors.set(key, start)
+      const back = returns
+        .slice(start, start + ROUND_TRIP_LOOKAHEAD)
+        .find(
+          (u) =>
+            u !== t &&
+            !used.has(u) &&
+            u.amount != null &&
+            withinTolerance(u.amount, amount, toleranceBps) &&
+            (u.timestampMs == null || t.timestampMs == null || u.timestampMs > t.timestampMs),
+        )
+      if (!back) continue
+      used.add(t)
+      used.add(back)
+      pairs.set(wallet, (pairs.get(wallet) ?? 0) + 1)
+      if (t.to !== wallet) {
+        pairs.set(t.to, (pairs.get(t.to) ?? 0) + 1)
+        edges.push([wallet, t.to])
+      }
+    }
+  }
+  return { pairs, edges }
+}
+
+// Coefficient of variation of the gaps between a wallet's timed transfers
+const intervalStats = (transfers: Transfer[]): { cv: number; meanMs: number } | null => {
+  const times = transfers
+    .map((t) => t.timestampMs)
+    .filter((t): t is number => t != null)
+    .sort((a, b) => a - b)
+  if (times.length < SYBIL_MIN_INTERVAL_TRANSFERS) return null
+  const gaps = times.slice(1).map((t, i) => t - times[i])
+  const mean = gaps.reduce((s, g) => s + g, 0) / gaps.length
+  if (mean === 0) return { cv: 0, meanMs: 0 }
+  const variance = gaps.reduce((s, g) => s + (g - mean) ** 2, 0) / gaps.length
+  return { cv: Math.sqrt(variance) / mean, meanMs: mean }
+}
+
+const createUnionFind = () => {
+  const parent = new Map<string, string>()
+  const find = (x: string): string => {
+    const p = parent.get(x) ?? x
+    if (p === x) return x
+    const root = find(p)
+    parent.set(x, root)
+    return root
+  }
+  const union = (a: string, b: string) => {
+    for (const x of [a, b]) if (!parent.has(x)) parent.set(x, x)
+    const [ra, rb] = [find(a), find(b)]
+    if (ra !== rb) parent.set(ra, rb)
+  }
+  return { find, union, members: () => [...parent.keys()] }
+}
+
+/**
+ * Scores every sender in xdm.sqlite and writes `${OUTPUT_DIR}/sybil_report.json`
+ */
+export const runSybil = async (): Promise<SybilReport> => {
+  const ss58Prefix = ss58PrefixFromEnv()
+  const dustAmount = parseUnits(SYBIL_DUST_AMOUNT, tokenFromEnv().decimals)
+  const addresses = new Map<string, CanonicalAddress>()
+  const keyOf = (address: string) => {
+    const canonical = canonicalAddress(address, ss58Prefix)
+    if (!addresses.has(canonical.key)) addresses.set(canonical.key, canonical)
+    return canonical.key
+  }
+  const displayOf = (key: string) => addresses.get(key)?.display ?? key
+
+  const byWallet = new Map<string, Transfer[]>()
+  const db = openDb(DB_PATH)
+  try {
+    for (const r of db.prepare(INITS_SQL).iterate() as Iterable<any>) {
+      if (!r.from_address) continue
+      const wallet = keyOf(String(r.from_address))
+      const transfers = byWallet.get(wallet) ?? []
+      transfers.push({
+        source: String(r.source_chain),
+        destination: String(r.dst_chain),
+        to: r.to_address ? keyOf(String(r.to_address)) : null,
+        amount: parseAmount(r.amount),
+        timestampMs: r.source_timestamp != null ? Number(r.source_timestamp) : null,
+      })
+      byWallet.set(wallet, transfers)
+    }
+  } finally {
+    db.close()
+  }
+
+  const toleranceBps = BigInt(Math.round(SYBIL_ROUND_TRIP_TOLERANCE * 100))
+  const roundTrips = countRoundTrips(byWallet, toleranceBps)
+
+  // Fan-in hubs: recipients with many distinct senders other than themselves
+  const sendersTo = new Map<string, Set<string>>()
+  for (const [wallet, transfers] of byWallet) {
+    for (const t of transfers) {
+      if (t.to == null || t.to === wallet) continue
+      const senders = sendersTo.get(t.to) ?? new Set<string>()
+      senders.add(wallet)
+      sendersTo.set(t.to, senders)
+    }
+  }
+  const hubs = new Set(
+    [...sendersTo].filter(([, s]) => s.size >= SYBIL_FAN_IN_SENDERS).map(([hub]) => hub),
+  )
+
+  const clusters = createUnionFind()
+  for (const [a, b] of roundTrips.edges) clusters.union(a, b)
+
+  const scored: WalletSybil[] = []
+  for (const [wallet, transfers] of byWallet) {
+    const n = transfers.length
+    const pairs = roundTrips.pairs.get(wallet) ?? 0
+    const dust = transfers.filter((t) => t.amount != null && t.amount < dustAmount).length
+    const intervals = intervalStats(transfers)
+    const toHubs = transfers.filter((t) => t.to != null && t.to !== wallet && hubs.has(t.to))
+    const fanInRecipients = [...new Set(toHubs.map((t) => t.to as string))]
+    for (const hub of fanInRecipients) clusters.union(wallet, hub)
+
+    const scores: Record<SybilSignal, number> = {
+      round_trip: round3(Math.min(1, (2 * pairs) / n)),
+      dust: round3(dust / n),
+      regular_interval: intervals ? round3(Math.max(0, 1 - intervals.cv)) : 0,
+      fan_in: round3(toHubs.length / n),
+    }
+    const flags = (Object.keys(scores) as SybilSignal[]).filter(
+      (s) => scores[s] > 0 && scores[s] >= SYBIL_FLAG_SCORE,
+    )
+    if (flags.length === 0) continue
+    scored.push({
+      wallet: displayOf(wallet),
+      public_key: wallet,
+      transfers: n,
+      scores,
+      score: round3(Object.values(scores).reduce((s, v) => s + v, 0)),
+      flags,
+      cluster: null,
+      evidence: {
+        round_trip_pairs: pairs,
+        dust_transfers: dust,
+        interval_cv: intervals ? round3(intervals.cv) : null,
+        mean_interval_seconds: intervals ? round3(intervals.meanMs / 1000) : null,
+        fan_in_recipients: fanInRecipients.map(displayOf),
+      },
+    })
+  }
+
+  // Clusters of two or more wallets with at least one flagged member, largest first
+  const flagged = new Map(scored.map((w) => [w.public_key, w]))
+  const groups = new Map<string, string[]>()
+  for (const member of clusters.members()) {
+    const root = clusters.find(member)
+    const group = groups.get(root) ?? []
+    group.push(member)
+    groups.set(root, group)
+  }
+  const clusterList: SybilCluster[] = [...groups.values()]
+    .filter((members) => members.length > 1 && members.some((m) => flagged.has(m)))
+    .sort((a, b) => b.length - a.length)
+    .map((members, i) => {
+      const id = `cluster-${i + 1}`
+      const signals = new Set<SybilSignal>()
+      for (const m of members) {
+        const entry = flagged.get(m)
+        if (!entry) continue
+        entry.cluster = id
+        entry.flags.forEach((f) => signals.add(f))
+      }
+      return {
+        id,
+        wallets: members.map(displayOf),
+        hubs: members.filter((m) => hubs.has(m)).map(displayOf),
+        signals: [...signals],
+      }
+    })
+
+  const report: SybilReport = {
+    db_path: DB_PATH,
+    thresholds: {
+      flag_score: SYBIL_FLAG_SCORE,
+      dust_amount: SYBIL_DUST_AMOUNT,
+      round_trip_tolerance_percent: SYBIL_ROUND_TRIP_TOLERANCE,
+      min_interval_transfers: SYBIL_MIN_INTERVAL_TRANSFERS,
+      fan_in_senders: SYBIL_FAN_IN_SENDERS,
+    },
+    wallets: scored.sort((a, b) => b.score - a.score || b.transfers - a.transfers),
+    clusters: clusterList,
+    generated_at: new Date().toISOString(),
+  }
+  const file = sybilReportPath()
+  fs.mkdirSync(path.dirname(file), { recursive: true })
+  fs.writeFileSync(file, JSON.stringify(report, null, 2) + '\n', 'utf8')
+  return report
+}
+
+const main = async () => {
+  const report = await runSybil()
+  console.log(
+    JSON.stringify(
+      {
+        report_file: sybilReportPath(),
+        thresholds: report.thresholds,
+        flagged_wallets: report.wallets.length,
+        clusters: report.clusters.length,
+        top: report.wallets.slice(0, 10).map((w) => ({
+          wallet: w.wallet,
+          score: w.score,
+          flags: w.flags,
+          cluster: w.cluster,
+        })),
+      },
+      null,
+      2,
+    ),
+  )
+}
+
+if (require.main === module) {
+  main().catch((err) => {
+    console.error(err)
+    process.exit(1)
+  })
+}
@@ -0,0 +1,103 @@
+/**
+ * Time-series aggregation of matched transfers
+ *
+ * Transfers are bucketed by their source block time (falling back to the destination
+ * block time) into UTC days (`YYYY-MM-DD`) and hours (`YYYY-MM-DDTHH:00Z`).
+ */
+
+import type { TimeBucket } from './types'
+
+export type Granularity = 'daily' | 'hourly'
+
+export const bucketOf = (timestampMs: number, granularity: Granularity): string => {
+  const iso = new Date(timestampMs).toISOString()
+  return granularity === 'daily' ? iso.slice(0, 10) : `${iso.slice(0, 13)}:00Z`
+}
+
+interface SeriesPoint {
+  transfers: number
+  volume: bigint
+}
+
+export interface SeriesCollector {
+  /** Records one transfer; `timestampMs` null counts it as untimed */
+  add: (walletKey: string, timestampMs: number | null, amount: bigint | null) => void
+  /** Direction-wide series, sorted by bucket */
+  series: (granularity: Granularity) => TimeBucket[]
+  /** Transfers per bucket for one wallet (only buckets with activity) */
+  walletSeries: (walletKey: string, granularity: Granularity) => Record<string, number>
+  /** First and last transfer time of a wallet (Unix ms) */
+  walletActivity: (walletKey: string) => { first: number; last: number } | undefined
+  /** Transfers without a captured block time */
+  untimed: () => number
+}
+
+const toBuckets = (points: Map<string, SeriesPoint>): TimeBucket[] =>
+  [...points.entries()]
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    .map(([bucket, p]) => ({ bucket, transfers: p.transfers, volume: p.volume.toString() }))
+
+export const createSeriesCollector = (): SeriesCollector => {
+  const points: Record<Granularity, Map<string, SeriesPoint>> = {
+    daily: new Map(),
+    hourly: new Map(),
+  }
+  const wallets: Record<Granularity, Map<string, Map<string, number>>> = {
+    daily: new Map(),
+    hourly: new Map(),
+  }
+  const activity = new Map<string, { first: number; last: number }>()
+  let untimed = 0
+
+  const add = (walletKey: string, timestampMs: number | null, amount: bigint | null) => {
+    if (timestampMs == null) {
+      untimed += 1
+      return
+    }
+    for (const granularity of ['daily', 'hourly'] as Granularity[]) {
+      const bucket = bucketOf(timestampMs, granularity)
+      const point = points[granularity].get(bucket) ?? { transfers: 0, volume: 0n }
+      point.transfers += 1
+      point.volume += amount ?? 0n
+      points[granularity].set(bucket, point)
+
+      const perWallet = wallets[granularity].get(walletKey) ?? new Map<string, number>()
+      perWallet.set(bucket, (perWallet.get(bucket) ?? 0) + 1)
+      wallets[granularity].set(walletKey, perWallet)
+    }
+    const seen = activity.get(walletKey)
+    activity.set(walletKey, {
+      first: Math.min(seen?.first ?? timestampMs, timestampMs),
+      last: Math.max(seen?.last ?? timestampMs, timestampMs),
+    })
+  }
+
+  return {
+    add,
+    series: (granularity) => toBuckets(points[granularity]),
+    walletSeries: (walletKey, granularity) =>
+      Object.fromEntries(
+        [...(wallets[granularity].get(walletKey)?.entries() ?? [])].sort(([a], [b]) =>
+          a < b ? -1 : a > b ? 1 : 0,
+        ),
+      ),
+    walletActivity: (walletKey) => activity.get(walletKey),
+    untimed: () => untimed,
+  }
+}
+
+/**
+ * Sums several sorted series into one (e.g. all directions)
+ */
+export const mergeSeries = (parts: TimeBucket[][]): TimeBucket[] => {
+  const merged = new Map<string, SeriesPoint>()
+  for (const part of parts) {
+    for (const b of part) {
+      const point = merged.get(b.bucket) ?? { transfers: 0, volume: 0n }
+      point.transfers += b.transfers
+      point.volume += BigInt(b.volume)
+      merged.set(b.bucket, point)
+    }
+  }
+  return toBuckets(merged)
+}
@@ -0,0 +1,97 @@
+import 'dotenv/config'
+import { openDb } from './sqlite'
+import type { ChainKey } from './chains'
+import { directionOf } from './chains'
+import { routeWindow } from './match'
+import { lateDeliveryFromEnv } from './run-config'
+
+// Per-stage lifecycle trail of one XDM message, used to explain why a transfer is (not) counted
+const OUTPUT_DIR = process.env.OUTPUT_DIR || 'exports'
+const DB_PATH = `${OUTPUT_DIR}/xdm.sqlite`
+
+const main = async () => {
+  const [channelArg, nonceArg] = process.argv.slice(2)
+  if (channelArg == null || nonceArg == null) {
+    throw new Error('usage: trail <channel_id> <nonce>')
+  }
+  const channelId = Number(channelArg)
+  const nonce = String(nonceArg)
+
+  const { policy } = lateDeliveryFromEnv()
+  const db = openDb(DB_PATH)
+  const sourceStage = (table: string, source: ChainKey, destination: ChainKey) =>
+    (db
+      .prepare(
+        `SELECT * FROM ${table} WHERE source_chain = ? AND dst_chain = ? AND channel_id = ? AND nonce = ?`,
+      )
+      .get(source, destination, channelId, nonce) as Record<string, unknown> | undefined) ?? null
+  const destinationStage = (table: string, source: ChainKey, destination: ChainKey) =>
+    (db
+      .prepare(
+        `SELECT * FROM ${table} WHERE destination_chain = ? AND src_chain = ? AND channel_id = ? AND nonce = ?`,
+      )
+      .get(destination, source, channelId, nonce) as Record<string, unknown> | undefined) ?? null
+
+  // Every (source, destination) route on which this message id was seen at any stage
+  const routes = db
+    .prepare(
+      `
+    SELECT source_chain AS source, dst_chain AS destination FROM source_inits WHERE channel_id = @c AND nonce = @n
+    UNION SELECT source_chain, dst_chain FROM source_outbox_messages WHERE channel_id = @c AND nonce = @n
+    UNION SELECT source_chain, dst_chain FROM source_outbox_responses WHERE channel_id = @c AND nonce = @n
+    UNION SELECT source_chain, dst_chain FROM source_acks WHERE channel_id = @c AND nonce = @n
+    UNION SELECT src_chain, destination_chain FROM destination_successes WHERE channel_id = @c AND nonce = @n
+    UNION SELECT src_chain, destination_chain FROM destination_inbox_responses WHERE channel_id = @c AND nonce = @n
+  `,
+    )
+    .all({ c: channelId, n: nonce }) as { source: ChainKey; destination: ChainKey }[]
+
+  const trails = routes.map(({ source, destination }) => {
+    const stages = {
+      transfer_initiated: sourceStage('source_inits', source, destination),
+      outbox_message: sourceStage('source_outbox_messages', source, destination),
+      transfer_successful: destinationStage('destination_successes', source, destination),
+      inbox_response: destinationStage('destination_inbox_responses', source, destination),
+      outbox_response: sourceStage('source_outbox_responses', source, destination),
+      outbox_result: sourceStage('source_acks', source, destination),
+    }
+
+    // Same rule as `match`: a transfer counts once its init (inside the source window) and its
+    // destination success (by the destination end height under the `exclude` policy) are captured
+    const window = routeWindow(source, destination, policy)
+    const init = stages.transfer_initiated
+    const success = stages.transfer_successful
+    const sourceHeight = Number(init?.source_block_height)
+    const destHeight = Number(success?.destination_block_height)
+    const reason = !init
+      ? 'message_without_transfer_init'
+      : (window.source_start != null && sourceHeight < window.source_start) ||
+          (window.source_end != null && sourceHeight > window.source_end)
+        ? 'out_of_window'
+        : !success
+          ? stages.inbox_response
+            ? 'delivered_without_transfer_success'
+            : 'not_delivered'
+          : window.dest_end != null && destHeight > window.dest_end
+            ? 'late_delivery_excluded'
+            : 'counted'
+    const counted = reason === 'counted'
+
+    return {
+      direction: directionOf(source, destination),
+      source_chain: source,
+      destination_chain: destination,
+      counted,
+      reason,
+      stages,
+    }
+  })
+
+  db.close()
+  console.log(JSON.stringify({ channel_id: channelId, nonce, trails }, null, 2))
+}
+
+main().catch((err) => {
+  console.error(err)
+  process.exit(1)
+})
@@ -2,34 +2,331 @@
  * Shared type definitions for crossing-the-narrow-sea analysis
  */
 
+import type { ChainKey, Direction } from './chains'
+import type { AddressType } from './evm'
+
 export interface TransferRow {
-  direction: 'd2c' | 'c2d'
+  direction: Direction
+  source_chain?: ChainKey
+  destination_chain?: ChainKey
+  channel_id?: number
+  nonce?: string
   from: string
+  from_type?: AddressType
+  to?: string | null
+  /** Transferred amount in base units (integer string) */
+  amount?: string
+  /** Source / destination block times (Unix ms) */
+  source_timestamp?: number | null
+  dest_timestamp?: number | null
+}
+
+export interface TokenInfo {
+  symbol: string
+  decimals: number
+}
+
+/**
+ * Volume statistics; amounts are base-unit integer strings, `formatted` holds token units
+ */
+export interface VolumeStats {
+  /** Transfers with a known amount */
+  transfers: number
+  total: string
+  mean: string
+  median: string
+  min: string
+  max: string
+  formatted: { total: string; mean: string; median: string; min: string; max: string }
+}
+
+export interface VolumeBucket {
+  label: string
+  /** Inclusive lower bound (base units) */
+  min: string
+  /** Exclusive upper bound (base units), null for the last bucket */
+  max: string | null
+  transfers: number
+  total: string
+}
+
+export interface DirectionVolume extends VolumeStats {
+  histogram: VolumeBucket[]
+}
+
+/**
+ * Transfers in one UTC day (`YYYY-MM-DD`) or hour (`YYYY-MM-DDTHH:00Z`)
+ */
+export interface TimeBucket {
+  bucket: string
+  transfers: number
+  /** Volume in base units */
+  volume: string
+}
+
+export interface DirectionSeries {
+  d2c: TimeBucket[]
+  c2d: TimeBucket[]
+  d2d: TimeBucket[]
+  overall: TimeBucket[]
+}
+
+/**
+ * One line of `wallet_timeseries.ndjson`: a wallet's transfers per bucket and direction
+ */
+export interface WalletTimeseries {
+  wallet: string
+  public_key: string
+  daily: Record<Direction, Record<string, number>>
+  hourly: Record<Direction, Record<string, number>>
+}
+
+/**
+ * Declarative eligibility rules evaluated by `counts` (every rule is optional)
+ */
+export interface EligibilityRules {
+  /** Minimum transfer amount in token units, e.g. "1.5" */
+  min_amount?: string
+  /** Senders that are never counted (team, faucet, relayer…), SS58 with any prefix or H160 */
+  exclude_addresses?: string[]
+  /** Maximum counted transfers per wallet per UTC day, all directions together */
+  daily_cap?: number
+  /** Minimum seconds between two counted transfers of the same wallet */
+  min_interval_seconds?: number
+}
+
+export type ExclusionReason =
+  | 'excluded_address'
+  | 'below_min_amount'
+  | 'missing_timestamp'
+  | 'daily_cap'
+  | 'min_interval'
+
+/**
+ * One line of `excluded_transfers.ndjson`: a matched transfer the rules did not count
+ */
+export interface ExcludedTransfer {
+  direction: Direction
+  source_chain: ChainKey
+  destination_chain: ChainKey
+  channel_id: number | null
+  nonce: string | null
+  from: string
+  amount: string | null
+  source_timestamp: number | null
+  reason: ExclusionReason
+}
+
+export interface EligibilitySummary {
+  /** Rules file in effect, null when every matched transfer counts */
+  rules_file: string | null
+  rules: EligibilityRules
+  eligible: { d2c: number; c2d: number; d2d: number; overall: number }
+  excluded: Record<ExclusionReason, number>
+}
+
+export type SybilSignal = 'round_trip' | 'dust' | 'regular_interval' | 'fan_in'
+
+/**
+ * Farming signals of one sender wallet; every signal score is between 0 and 1
+ */
+export interface WalletSybil {
+  wallet: string
+  public_key: string
+  transfers: number
+  scores: Record<SybilSignal, number>
+  /** Sum of the signal scores (0–4) */
+  score: number
+  /** Signals at or above the flag threshold */
+  flags: SybilSignal[]
+  cluster: string | null
+  evidence: {
+    /** Transfers returned by the recipient on the reverse route with about the same amount */
+    round_trip_pairs: number
+    dust_transfers: number
+    /** Coefficient of variation of the time between transfers, null with too few timed ones */
+    interval_cv: number | null
+    mean_interval_seconds: number | null
+    /** Recipients fed by many distinct senders that this wallet sent to */
+    fan_in_recipients: string[]
+  }
+}
+
+/**
+ * Wallets linked by round trips or by feeding the same fan-in recipient
+ */
+export interface SybilCluster {
+  id: string
+  wallets: string[]
+  /** Fan-in recipients in the cluster */
+  hubs: string[]
+  signals: SybilSignal[]
+}
+
+export interface SybilReport {
+  db_path: string
+  thresholds: {
+    flag_score: number
+    dust_amount: string
+    round_trip_tolerance_percent: number
+    min_interval_transfers: number
+    fan_in_senders: number
+  }
+  /** Flagged wallets, highest score first */
+  wallets: WalletSybil[]
+  clusters: SybilCluster[]
+  generated_at: string
 }
 
 export interface WalletEntry {
   wallet: string
+  address_type: AddressType
+  /** Matched transfers (raw) */
   count: number
+  /** Transfers passing the eligibility rules; rankings are by this count */
+  eligible: number
+  /** From the sybil report (0 / empty when there is none) */
+  sybil_score: number
+  sybil_flags: SybilSignal[]
+  percent: string
+  volume: VolumeStats
+}
+
+/**
+ * A wallet's transfers across all directions (wallets keyed by public key)
+ */
+export interface CombinedWalletEntry {
+  wallet: string
+  address_type: AddressType
+  /** Public key (hex) for SS58 wallets, lowercase H160 for EVM wallets */
+  public_key: string
+  d2c: number
+  c2d: number
+  d2d: number
+  total: number
+  /** Transfers passing the eligibility rules, per direction and in total */
+  eligible: { d2c: number; c2d: number; d2d: number; total: number }
+  sybil_score: number
+  sybil_flags: SybilSignal[]
+  sybil_cluster: string | null
   percent: string
+  volume: VolumeStats
+  /** First / last transfer time (ISO), null when no block time was captured */
+  first_active: string | null
+  last_active: string | null
+}
+
+export interface RouteTotal {
+  source_chain: ChainKey
+  destination_chain: ChainKey
+  direction: Direction
+  transfers: number
+}
+
+/**
+ * Merkle root over the combined per-wallet counts (see merkle.ts for the leaf encoding)
+ */
+export interface MerkleCommitment {
+  root: string
+  leaves: number
+  /** Leaf fields, in encoding order */
+  leaf_fields: [
+    'public_key',
+    'd2c',
+    'c2d',
+    'd2d',
+    'total',
+    'eligible.d2c',
+    'eligible.c2d',
+    'eligible.d2d',
+    'eligible.total',
+  ]
+}
+
+/**
+ * One file under `proofs/`: a wallet's leaf and the sibling hashes up to the root
+ */
+export interface WalletProof {
+  root: string
+  wallet: string
+  address_type: AddressType
+  public_key: string
+  d2c: number
+  c2d: number
+  d2d: number
+  total: number
+  eligible: { d2c: number; c2d: number; d2d: number; total: number }
+  leaf: string
+  proof: string[]
+}
+
+/**
+ * `signature.json`, written by `sign`: an sr25519 signature over the digest of a result file
+ */
+export interface ResultSignature {
+  /** Signed file, relative to the output directory */
+  subject: 'manifest.json' | 'counts_per_wallet.json'
+  /** SHA-256 (hex) of the subject file */
+  digest: string
+  /** Exact message that was signed */
+  message: string
+  /** Signer address (SS58 with `SS58_PREFIX`) and public key */
+  signer: string
+  public_key: string
+  crypto: 'sr25519'
+  signature: string
+  signed_at: string
 }
 
 export interface CountsResult {
   d2c: WalletEntry[]
   c2d: WalletEntry[]
+  d2d: WalletEntry[]
+  combined: CombinedWalletEntry[]
+  /** SS58 prefix used to display wallet addresses */
+  ss58_prefix: number
+  token: TokenInfo
+  volume: {
+    d2c: DirectionVolume
+    c2d: DirectionVolume
+    d2d: DirectionVolume
+    overall: DirectionVolume
+  }
+  timeseries: {
+    daily: DirectionSeries
+    hourly: DirectionSeries
+    /** Transfers left out of the series because their block time was not captured */
+    untimed: Record<Direction, number>
+  }
   totals: {
     d2c: number
     d2c_percent: string
     c2d: number
     c2d_percent: string
+    d2d: number
+    d2d_percent: string
     overall: number
   }
+  routes: RouteTotal[]
+  eligibility: EligibilitySummary
+  sybil: { report_file: string | null; flagged_wallets: number; clusters: number }
   block_ranges: {
     consensus_start: string
     consensus_end: string
     domain_start: string
     domain_end: string
   }
-  files: { d2c_transfers: string; c2d_transfers: string }
+  chain_windows: Record<ChainKey, { start: string; end: string }>
+  merkle: MerkleCommitment
+  files: {
+    d2c_transfers: string
+    c2d_transfers: string
+    d2d_transfers: string
+    wallet_timeseries: string
+    excluded_transfers: string
+    /** Directory of per-wallet proof files, named by wallet address */
+    proofs: string
+  }
   output_dir: string
   generated_at: string
 }
@@ -0,0 +1,57 @@
+import * as fs from 'node:fs'
+import * as path from 'node:path'
+import { merkleLeaf, verifyMerkleProof } from './merkle'
+import type { WalletProof } from './types'
+
+// Standalone check of a wallet proof from `${OUTPUT_DIR}/proofs/`: recomputes the leaf from
+// the wallet's counts and folds the proof up to the root. Pass the published root with
+// --root=0x…; without it the proof is only checked against the root written in the file.
+// Usage: yarn verify-proof <proof file> [--root=0x…]
+
+export interface ProofCheck {
+  file: string
+  wallet: string
+  leaf_matches: boolean
+  root: string
+  root_source: 'argument' | 'proof file'
+  included: boolean
+  ok: boolean
+}
+
+export const checkWalletProof = (proof: WalletProof, root: string = proof.root) => {
+  const leaf = merkleLeaf(proof)
+  const leafMatches = leaf === proof.leaf.toLowerCase()
+  return { leafMatches, included: leafMatches && verifyMerkleProof(leaf, proof.proof, root) }
+}
+
+export const runVerifyProof = (file: string, root?: string): ProofCheck => {
+  const filePath = path.resolve(file)
+  const proof = JSON.parse(fs.readFileSync(filePath, 'utf8')) as WalletProof
+  const expectedRoot = root ?? proof.root
+  const { leafMatches, included } = checkWalletProof(proof, expectedRoot)
+  return {
+    file: filePath,
+    wallet: proof.wallet,
+    leaf_matches: leafMatches,
+    root: expectedRoot,
+    root_source: root ? 'argument' : 'proof file',
+    included,
+    ok: leafMatches && included,
+  }
+}
+
+const main = async () => {
+  const file = process.argv.slice(2).find((a) => !a.startsWith('--'))
+  if (!file) throw new Error('usage: verify-proof <proof file> [--root=0x…]')
+  const root = process.argv.find((a) => a.startsWith('--root='))?.split('=')[1]
+  const result = runVerifyProof(file, root)
+  console.log(JSON.stringify(result, null, 2))
+  if (!result.ok) process.exit(1)
+}
+
+if (require.main === module) {
+  main().catch((err) => {
+    console.error(err)
+    process.exit(1)
+  })
+}
@@ -0,0 +1,118 @@
+import 'dotenv/config'
+import * as fs from 'node:fs'
+import * as path from 'node:path'
+import { u8aToHex } from '@polkadot/util'
+import { cryptoWaitReady, decodeAddress, signatureVerify } from '@polkadot/util-crypto'
+import { renderHtmlLeaderboard } from './htmlLeaderboard'
+import { MANIFEST_FILE, readManifest, sha256File } from './manifest'
+import { SIGNATURE_FILE, signatureMessage } from './sign'
+import type { CountsResult, ResultSignature } from './types'
+
+// Checks signature.json against a published signer address: the signature must be a valid
+// sr25519 signature by that address over the recorded message, and the signed file must
+// still hash to the recorded digest. leaderboard.html, when present, must be exactly the page
+// `sign` renders from the signed counts_per_wallet.json and this signature.
+// Usage: yarn verify-signature --address=<SS58> [--dir=<output dir>] (or SIGNER_ADDRESS)
+const OUTPUT_DIR = process.env.OUTPUT_DIR || 'exports'
+
+export interface SignatureCheck {
+  check: string
+  ok: boolean
+  detail?: string
+}
+
+const argValue = (name: string): string | undefined =>
+  process.argv.find((a) => a.startsWith(`--${name}=`))?.split('=')[1]
+
+export const runVerifySignature = async (
+  address: string | undefined = argValue('address') ?? process.env.SIGNER_ADDRESS,
+  dir: string = argValue('dir') ?? OUTPUT_DIR,
+) => {
+  if (!address) throw new Error('the signer address is required (--address=… or SIGNER_ADDRESS)')
+  await cryptoWaitReady()
+  const dirAbs = path.resolve(dir)
+  const signatureFile = path.join(dirAbs, SIGNATURE_FILE)
+  if (!fs.existsSync(signatureFile)) throw new Error(`${signatureFile} not found`)
+  const signature = JSON.parse(fs.readFileSync(signatureFile, 'utf8')) as ResultSignature
+
+  const checks: SignatureCheck[] = []
+  const publicKey = u8aToHex(decodeAddress(address))
+  checks.push({
+    check: 'signer is the published address',
+    ok: publicKey === signature.public_key.toLowerCase(),
+    detail: signature.signer,
+  })
+
+  const verified = signatureVerify(signature.message, signature.signature, address)
+  checks.push({
+    check: 'sr25519 signature',
+    ok: verified.isValid && verified.crypto === 'sr25519',
+    detail: verified.crypto,
+  })
+
+  checks.push({
+    check: 'message names the subject and digest',
+    ok: signature.message === signatureMessage(signature.subject, signature.digest),
+  })
+
+  const subjectFile = path.join(dirAbs, signature.subject)
+  const digest = fs.existsSync(subjectFile) ? (await sha256File(subjectFile)).sha256 : null
+  checks.push({
+    check: `${signature.subject} matches the signed digest`,
+    ok: digest === signature.digest,
+    detail: digest ?? 'file not found',
+  })
+
+  const htmlFile = path.join(dirAbs, 'leaderboard.html')
+  if (fs.existsSync(htmlFile)) {
+    // The page is not signed itself: it must be rendered from counts the signature covers
+    const countsName = 'counts_per_wallet.json'
+    const countsFile = path.join(dirAbs, countsName)
+    const countsDigest = fs.existsSync(countsFile) ? (await sha256File(countsFile)).sha256 : null
+    const signedCountsDigest =
+      signature.subject === MANIFEST_FILE
+        ? (readManifest(dirAbs)?.artifacts[countsName]?.sha256 ?? null)
+        : signature.digest
+    const covered = countsDigest != null && countsDigest === signedCountsDigest
+    checks.push({
+      check: `${countsName} is covered by the signature`,
+      ok: covered,
+      detail: countsDigest ?? 'file not found',
+    })
+
+    const html = fs.readFileSync(htmlFile, 'utf8')
+    const rendered = covered
+      ? renderHtmlLeaderboard(
+          JSON.parse(fs.readFileSync(countsFile, 'utf8')) as CountsResult,
+          signature,
+        )
+      : null
+    checks.push({
+      check: `leaderboard.html is the page rendered from ${countsName} and the signature`,
+      ok: rendered === html,
+    })
+  }
+
+  return {
+    dir: dirAbs,
+    signature_file: signatureFile,
+    address,
+    subject: signature.subject,
+    digest: signature.digest,
+    checks,
+    ok: checks.every((c) => c.ok),
+  }
+}
+
+const main = async () => {
+  const result = await runVerifySignature()
+  console.log(JSON.stringify(result, null, 2))
+  if (!result.ok) process.exit(1)
+}
+
+if (require.main === module) {
+  main().catch((err) => {
+    console.error(err)
+    process.exit(1)
+  })
+}
@@ -0,0 +1,172 @@
+import 'dotenv/config'
+import { spawnSync } from 'node:child_process'
+import * as fs from 'node:fs'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import { CONSENSUS } from './chains'
+import type { ChainKey } from './chains'
+import type { RunManifest } from './manifest'
+import { MANIFEST_FILE, countsResultsDigest, readManifest, sha256File, toolInfo } from './manifest'
+import { sybilReportPath } from './sybil'
+import type { CountsResult } from './types'
+
+// Checks a published run against its manifest.json: every listed artifact must hash to the
+// recorded value, and re-running match and counts on the shared xdm.sqlite with the recorded
+// windows and settings must reproduce the NDJSON files and the counts results.
+// Usage: yarn verify [--dir=<published output dir>] (defaults to OUTPUT_DIR)
+const OUTPUT_DIR = process.env.OUTPUT_DIR || 'exports'
+
+const NDJSON_FILES = ['d2c_transfers.ndjson', 'c2d_transfers.ndjson', 'd2d_transfers.ndjson']
+
+export interface VerifyCheck {
+  check: string
+  expected: string | null
+  actual: string | null
+  ok: boolean
+}
+
+export interface VerifyResult {
+  dir: string
+  manifest_file: string
+  tool: { manifest: RunManifest['tool']; local: RunManifest['tool'] }
+  checks: VerifyCheck[]
+  ok: boolean
+}
+
+const argValue = (name: string): string | undefined =>
+  process.argv.find((a) => a.startsWith(`--${name}=`))?.split('=')[1]
+
+const digestOrNull = async (file: string): Promise<string | null> =>
+  fs.existsSync(file) ? (await sha256File(file)).sha256 : null
+
+const heightVar = (chain: ChainKey, bound: 'START' | 'END'): string =>
+  chain === CONSENSUS
+    ? `CONSENSUS_${bound}_HEIGHT`
+    : `DOMAIN_${chain.replace(/^domain-/, '')}_${bound}_HEIGHT`
+
+// Environment that pins a child match/counts run to the manifest instead of local settings
+const replayEnv = (manifest: RunManifest, workDir: string): typeof process.env => {
+  const env: typeof process.env = { ...process.env }
+  for (const key of Object.keys(env)) {
+    if (/^(CONSENSUS|DOMAIN(_\d+)?)_(START|END)_HEIGHT$/.test(key)) env[key] = ''
+  }
+  for (const [chain, window] of Object.entries(manifest.windows)) {
+    env[heightVar(chain, 'START')] = window.start?.toString() ?? ''
+    env[heightVar(chain, 'END')] = window.end?.toString() ?? ''
+  }
+  Object.assign(env, {
+    OUTPUT_DIR: workDir,
+    // The windows above already include any derived heights
+    RUN_CONFIG_PATH: path.join(workDir, 'no_run_config.json'),
+    LATE_DELIVERY_POLICY: manifest.late_delivery_policy ?? 'include',
+    LATE_DELIVERY_GRACE_BLOCKS: '0',
+    WRITE_MANIFEST: 'false',
+    DOTENV_OVERRIDE: 'false',
+    HTML_OUTPUT: 'false',
+  })
+  const settings = manifest.counts?.settings
+  if (settings) {
+    const rulesFile = path.join(workDir, 'eligibility_rules.json')
+    fs.writeFileSync(rulesFile, JSON.stringify(settings.eligibility_rules, null, 2) + '\n')
+    Object.assign(env, {
+      SS58_PREFIX: String(settings.ss58_prefix),
+      TOKEN_SYMBOL: settings.token.symbol,
+      TOKEN_DECIMALS: String(settings.token.decimals),
+      ELIGIBILITY_RULES: rulesFile,
+    })
+  }
+  return env
+}
+
+// Runs a sibling script with the same runtime (e.g. tsx) this one was started with
+const runStep = (script: string, env: typeof process.env): void => {
+  const res = spawnSync(process.execPath, [...process.execArgv, path.join(__dirname, script)], {
+    env,
+    stdio: ['ignore', 'ignore', 'inherit'],
+  })
+  if (res.status !== 0) {
+    throw new Error(`${script} failed during verification (exit ${res.status ?? res.signal})`)
+  }
+}
+
+export const runVerify = async (dir: string = argValue('dir') ?? OUTPUT_DIR) => {
+  const dirAbs = path.resolve(dir)
+  const manifest = readManifest(dirAbs)
+  if (!manifest) throw new Error(`${path.join(dirAbs, MANIFEST_FILE)} not found`)
+
+  const checks: VerifyCheck[] = []
+  const compare = (check: string, expected: string | null, actual: string | null) =>
+    checks.push({ check, expected, actual, ok: expected === actual })
+
+  for (const [name, digest] of Object.entries(manifest.artifacts)) {
+    compare(`sha256 ${name}`, digest.sha256, await digestOrNull(path.join(dirAbs, name)))
+  }
+
+  const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'xdm-verify-'))
+  try {
+    const env = replayEnv(manifest, workDir)
+    const dbName = Object.keys(manifest.artifacts).find((name) => name.endsWith('.sqlite'))
+    if (dbName && fs.existsSync(path.join(dirAbs, dbName))) {
+      // Work on a copy: opening the database may migrate its schema, which must not touch
+      // the published file (cloned instead of copied where the filesystem supports it)
+      fs.copyFileSync(
+        path.join(dirAbs, dbName),
+        path.join(workDir, 'xdm.sqlite'),
+        fs.constants.COPYFILE_FICLONE,
+      )
+      runStep('match.ts', env)
+      for (const name of NDJSON_FILES) {
+        const recorded = manifest.artifacts[name]?.sha256 ?? null
+        compare(`match reproduces ${name}`, recorded, await digestOrNull(path.join(workDir, name)))
+      }
+    } else {
+      // No database shared: recount from the published NDJSON files as they are
+      for (const name of NDJSON_FILES) {
+        const file = path.join(dirAbs, name)
+        if (fs.existsSync(file)) fs.copyFileSync(file, path.join(workDir, name))
+      }
+    }
+
+    if (manifest.counts) {
+      const sybilSha = manifest.counts.settings.sybil_report_sha256
+      if (sybilSha) {
+        const sybilFile = sybilReportPath(dirAbs)
+        compare('sha256 sybil_report.json', sybilSha, await digestOrNull(sybilFile))
+        if (fs.existsSync(sybilFile)) fs.copyFileSync(sybilFile, sybilReportPath(workDir))
+      }
+      runStep('counts.ts', env)
+      const result = JSON.parse(
+        fs.readFileSync(path.join(workDir, 'counts_per_wallet.json'), 'utf8'),
+      ) as CountsResult
+      compare(
+        'counts reproduces results',
+        manifest.counts.results_sha256,
+        countsResultsDigest(result),
+      )
+    }
+  } finally {
+    fs.rmSync(workDir, { recursive: true, force: true })
+  }
+
+  const result: VerifyResult = {
+    dir: dirAbs,
+    manifest_file: path.join(dirAbs, MANIFEST_FILE),
+    tool: { manifest: manifest.tool, local: toolInfo() },
+    checks,
+    ok: checks.every((c) => c.ok),
+  }
+  return result
+}
+
+const main = async () => {
+  const result = await runVerify()
+  console.log(JSON.stringify(result, null, 2))
+  if (!result.ok) process.exit(1)
+}
+
+if (require.main === module) {
+  main().catch((err) => {
+    console.error(err)
+    process.exit(1)
+  })
+}
@@ -0,0 +1,61 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { formatUnits, parseAmount, parseUnits, volumeHistogram, volumeStats } from './volume'
+
+const DECIMALS = 18
+const UNIT = 10n ** 18n
+
+test('formatUnits renders base-unit amounts without trailing zeros', () => {
+  assert.equal(formatUnits(0n, DECIMALS), '0')
+  assert.equal(formatUnits(UNIT, DECIMALS), '1')
+  assert.equal(formatUnits(1n, DECIMALS), '0.000000000000000001')
+  assert.equal(formatUnits((3n * UNIT) / 2n, DECIMALS), '1.5')
+  assert.equal(
+    formatUnits(123456789n * UNIT + 123456789n * 10n ** 9n, DECIMALS),
+    '123456789.123456789',
+  )
+  assert.equal(formatUnits(-1500000000000000000n, DECIMALS), '-1.5')
+})
+
+test('parseUnits and formatUnits round-trip decimal amounts', () => {
+  for (const value of ['0', '1', '0.000000000000000001', '1.5', '123456789.123456789']) {
+    assert.equal(formatUnits(parseUnits(value, DECIMALS), DECIMALS), value)
+  }
+  assert.throws(() => parseUnits('1.0000000000000000001', DECIMALS), /at most 18 decimals/)
+  assert.throws(() => parseUnits('-1', DECIMALS), /invalid token amount/)
+})
+
+test('parseAmount only accepts base-unit integers', () => {
+  assert.equal(parseAmount('340282366920938463463374607431768211455'), 2n ** 128n - 1n)
+  assert.equal(parseAmount(' 42 '), 42n)
+  for (const bad of ['1.5', '-1', '1e18', '', null, undefined]) {
+    assert.equal(parseAmount(bad), null)
+  }
+})
+
+test('volume totals stay exact beyond Number precision', () => {
+  const big = 2n ** 100n + 1n
+  const stats = volumeStats([big, big, 1n], DECIMALS)
+  assert.equal(stats.total, (2n * big + 1n).toString())
+  assert.equal(stats.median, big.toString())
+  assert.equal(stats.min, '1')
+  assert.equal(stats.mean, ((2n * big + 1n) / 3n).toString())
+  assert.deepEqual(volumeStats([], DECIMALS).total, '0')
+})
+
+test('the histogram keeps every transfer and the total volume', () => {
+  // 0.05, 0.1, 1, 9.99, 10, 12345 and 100000 tokens
+  const amounts = [5n, 10n, 100n, 999n, 1000n, 1234500n, 10000000n].map((c) => (c * UNIT) / 100n)
+  const buckets = volumeHistogram(amounts, DECIMALS)
+  assert.equal(
+    buckets.reduce((n, b) => n + b.transfers, 0),
+    amounts.length,
+  )
+  assert.equal(
+    buckets.reduce((s, b) => s + BigInt(b.total), 0n),
+    amounts.reduce((s, a) => s + a, 0n),
+  )
+  // Lower bucket edges are inclusive
+  assert.equal(buckets[1].transfers, 1)
+  assert.equal(buckets[buckets.length - 1].transfers, 2)
+})
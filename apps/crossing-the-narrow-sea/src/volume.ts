@@ -0,0 +1,111 @@
+/**
+ * Transfer volume statistics
+ *
+ * Amounts are integer strings in the chain's smallest unit; all arithmetic is done with
+ * BigInt so totals stay exact, and values are formatted with the token decimals only
+ * for display.
+ */
+
+import type { TokenInfo, VolumeBucket, VolumeStats } from './types'
+
+export const tokenFromEnv = (): TokenInfo => {
+  const decimals = Number(process.env.TOKEN_DECIMALS || 18)
+  if (!Number.isInteger(decimals) || decimals < 0) {
+    throw new Error(`TOKEN_DECIMALS must be a non-negative integer (got ${decimals})`)
+  }
+  return { symbol: process.env.TOKEN_SYMBOL || 'AI3', decimals }
+}
+
+/**
+ * Parses an NDJSON/SQLite amount; returns null for anything that is not a base-unit integer
+ */
+export const parseAmount = (value: unknown): bigint | null => {
+  const s = String(value ?? '').trim()
+  return /^\d+$/.test(s) ? BigInt(s) : null
+}
+
+/**
+ * Formats a base-unit amount in token units, e.g. 1500000000000000000n → "1.5"
+ */
+export const formatUnits = (value: bigint, decimals: number): string => {
+  const negative = value < 0n
+  const abs = negative ? -value : value
+  const digits = abs.toString().padStart(decimals + 1, '0')
+  const whole = digits.slice(0, digits.length - decimals)
+  const fraction = digits.slice(digits.length - decimals).replace(/0+$/, '')
+  return `${negative ? '-' : ''}${whole}${fraction ? `.${fraction}` : ''}`
+}
+
+/**
+ * Parses a token-unit amount to base units, e.g. "1.5" → 1500000000000000000n
+ */
+export const parseUnits = (value: string, decimals: number): bigint => {
+  const m = /^(\d+)(?:\.(\d+))?$/.exec(value.trim())
+  if (!m || (m[2] ?? '').length > decimals) {
+    throw new Error(`invalid token amount: ${value} (at most ${decimals} decimals)`)
+  }
+  return BigInt(m[1] + (m[2] ?? '').padEnd(decimals, '0'))
+}
+
+const sortAmounts = (amounts: bigint[]): bigint[] =>
+  [...amounts].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0))
+
+/**
+ * Total, mean, median, min and max of a set of amounts (mean and median round down)
+ */
+export const volumeStats = (amounts: bigint[], decimals: number): VolumeStats => {
+  const sorted = sortAmounts(amounts)
+  const n = sorted.length
+  const total = sorted.reduce((sum, a) => sum + a, 0n)
+  const mid = Math.floor(n / 2)
+  const median = n === 0 ? 0n : n % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2n
+  const mean = n === 0 ? 0n : total / BigInt(n)
+  const min = n === 0 ? 0n : sorted[0]
+  const max = n === 0 ? 0n : sorted[n - 1]
+  return {
+    transfers: n,
+    total: total.toString(),
+    mean: mean.toString(),
+    median: median.toString(),
+    min: min.toString(),
+    max: max.toString(),
+    formatted: {
+      total: formatUnits(total, decimals),
+      mean: formatUnits(mean, decimals),
+      median: formatUnits(median, decimals),
+      min: formatUnits(min, decimals),
+      max: formatUnits(max, decimals),
+    },
+  }
+}
+
+// Bucket edges in whole tokens as powers of ten: 0.1, 1, 10, 100, 1k, 10k
+const BUCKET_EXPONENTS = [-1, 0, 1, 2, 3, 4]
+
+/**
+ * Size-bucket histogram of transfer amounts, bucket edges in whole tokens
+ */
+export const volumeHistogram = (amounts: bigint[], decimals: number): VolumeBucket[] => {
+  const edges = BUCKET_EXPONENTS.filter((e) => decimals + e >= 0).map(
+    (e) => 10n ** BigInt(decimals + e),
+  )
+  const bounds = [0n, ...edges]
+  const buckets: VolumeBucket[] = bounds.map((min, i) => {
+    const max = i + 1 < bounds.length ? bounds[i + 1] : null
+    const label =
+      max == null
+        ? `≥ ${formatUnits(min, decimals)}`
+        : `${formatUnits(min, decimals)} – ${formatUnits(max, decimals)}`
+    return { label, min: min.toString(), max: max?.toString() ?? null, transfers: 0, total: '0' }
+  })
+
+  const totals = bounds.map(() => 0n)
+  for (const amount of amounts) {
+    let i = bounds.length - 1
+    while (i > 0 && amount < bounds[i]) i--
+    buckets[i].transfers += 1
+    totals[i] += amount
+  }
+  totals.forEach((t, i) => (buckets[i].total = t.toString()))
+  return buckets
+}